@@ -1,183 +1,643 @@
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { GoogleGenAI, Modality, LiveServerMessage } from '@google/genai';
-import { SYSTEM_INSTRUCTION } from './constants';
-import { TranscriptionItem } from './types';
+import { Modality, LiveServerMessage } from '@google/genai';
+import { MODES, DEFAULT_MODE, DEFAULT_SETTINGS, getModeConfig, getStudyLevelLabel, buildSystemInstruction, buildModeSwitchMessage, buildLessonInstruction, buildLessonStartMessage } from './constants';
+import { AIMode, LessonPlan, LessonProgress, LessonSelection, ModeConfig, ProfileSuggestion, SessionRecord, Settings, TalkMode, UserProfile } from './types';
 import { Visualizer } from './components/Visualizer';
-import { encode, decode, decodeAudioData, float32ToInt16 } from './services/audioUtils';
+import { ModeCard } from './components/ModeCard';
+import { SessionHistoryPanel } from './components/SessionHistoryPanel';
+import { TextComposer } from './components/TextComposer';
+import { SettingsPanel } from './components/SettingsPanel';
+import { MicSelector } from './components/MicSelector';
+import { ProfilePanel } from './components/ProfilePanel';
+import { SummaryCard } from './components/SummaryCard';
+import { VideoPreview } from './components/VideoPreview';
+import { LiveCaptions } from './components/LiveCaptions';
+import { DiagnosticsOverlay } from './components/DiagnosticsOverlay';
+import { StudyPicker } from './components/StudyPicker';
+import { decode, pcmLevel } from './services/audioUtils';
+import { AudioCapture, startAudioCapture } from './services/audioCapture';
+import { createTranscriptState, applyServerMessage, appendToolEvent, appendTypedText, closeOpenTurns, sealTurns, truncateModelTurn } from './services/transcriptAggregator';
+import { ConnectionStatus } from './services/liveConnection';
+import { ConversationBackend, createConversationBackend } from './services/conversationBackend';
+import { createSessionId, saveSession, listSessions, deleteSession } from './services/sessionStore';
+import { loadSettings, saveSettings } from './services/settingsStore';
+import { listAudioInputs, openMicrophone } from './services/audioDevices';
+import { createGenAI } from './services/genaiClient';
+import { playVoicePreview } from './services/voicePreview';
+import { loadProfile, saveProfile } from './services/profileStore';
+import { suggestProfileUpdates } from './services/profileSuggestions';
+import { summarizeSession } from './services/sessionSummary';
+import { SessionRecorder, createSessionRecorder } from './services/sessionRecorder';
+import { VideoCapture, VideoSource, startVideoCapture } from './services/videoCapture';
+import { OUTPUT_SAMPLE_RATE, PlaybackQueue, createPlaybackQueue } from './services/playbackQueue';
+import { SessionDiagnostics, createSessionDiagnostics } from './services/diagnostics';
+import { createScreenWakeLock } from './services/screenWakeLock';
+import { createToolRegistry } from './services/toolRegistry';
+import { LOCAL_TOOLS } from './services/localTools';
+import { buildLessonPlan } from './services/curriculum';
+import { createLessonTools } from './services/lessonTools';
+import { loadStudyProgress } from './services/studyProgressStore';
+
+const toolRegistry = createToolRegistry(LOCAL_TOOLS);
+
+/** Mic level above which a chunk counts as the user speaking, for reply latency. */
+const SPEECH_LEVEL = 0.02;
+
+const isTypingTarget = (e: KeyboardEvent) =>
+  e.target instanceof HTMLElement && (e.target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(e.target.tagName));
+
+type SidePanel = 'history' | 'settings' | 'profile';
 
 const App: React.FC = () => {
   const [isSessionActive, setIsSessionActive] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
-  const [transcriptions, setTranscriptions] = useState<TranscriptionItem[]>([]);
+  const [transcript, setTranscript] = useState(createTranscriptState);
+  const transcriptions = transcript.items;
   const [error, setError] = useState<string | null>(null);
-  const [isTranscriptOpen, setIsTranscriptOpen] = useState(false);
+  const [openPanel, setOpenPanel] = useState<SidePanel | null>(null);
+  const [profile, setProfile] = useState<UserProfile>(loadProfile);
+  const [profileSuggestions, setProfileSuggestions] = useState<ProfileSuggestion[]>([]);
+  // The just-finished session, shown as a takeaways card on the idle screen.
+  const [lastSession, setLastSession] = useState<SessionRecord | null>(null);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [settings, setSettings] = useState<Settings>(loadSettings);
+  const [inputDevices, setInputDevices] = useState<MediaDeviceInfo[]>([]);
+  const [inputAnalyser, setInputAnalyser] = useState<AnalyserNode | null>(null);
+  const [recordCall, setRecordCall] = useState(false);
+  const [videoCapture, setVideoCapture] = useState<VideoCapture | null>(null);
+  const [isMuted, setIsMuted] = useState(false);
+  const [isTalking, setIsTalking] = useState(false);
+  const [showDiagnostics, setShowDiagnostics] = useState(false);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [modeId, setModeId] = useState<AIMode>(DEFAULT_MODE);
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus | null>(null);
+  const [lessonSelection, setLessonSelection] = useState<LessonSelection | null>(null);
+  const [studyProgress, setStudyProgress] = useState<LessonProgress[]>(loadStudyProgress);
+  // The lesson being taught in the current call, with the step Lumina is on.
+  const [activeLesson, setActiveLesson] = useState<{ plan: LessonPlan; progress: LessonProgress | null; stepIndex: number | null } | null>(null);
+  const activeMode = getModeConfig(modeId);
 
-  const audioContextRef = useRef<AudioContext | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
   const outputAudioContextRef = useRef<AudioContext | null>(null);
   const analyzerRef = useRef<AnalyserNode | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const sessionRef = useRef<any>(null);
-  const nextStartTimeRef = useRef<number>(0);
-  const activeSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const transcriptListRef = useRef<HTMLDivElement>(null);
+  const backendRef = useRef<ConversationBackend | null>(null);
+  const modeIdRef = useRef<AIMode>(modeId);
+  const playbackRef = useRef<PlaybackQueue | null>(null);
+  const diagnosticsRef = useRef<SessionDiagnostics | null>(null);
+  const sessionRecordRef = useRef<SessionRecord | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const videoCaptureRef = useRef<VideoCapture | null>(null);
+  // Read from the capture callback, which is created once per session.
+  const talkModeRef = useRef<TalkMode>(settings.talkMode);
+  const isMutedRef = useRef(false);
+  const isTalkingRef = useRef(false);
+  const isStartingRef = useRef(false);
+
+  const refreshSessions = useCallback(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(e => console.error('Failed to load session history', e));
+  }, []);
+
+  const finishSessionRecord = useCallback(() => {
+    const record = sessionRecordRef.current;
+    const recording = recorderRef.current?.finish() || undefined;
+    sessionRecordRef.current = null;
+    recorderRef.current = null;
+    if (!record || (record.transcriptions.length === 0 && !recording)) return;
+    const endedAt = Date.now();
+    const transcriptions = sealTurns(record.transcriptions, endedAt);
+    const finished: SessionRecord = { ...record, transcriptions, endedAt, recording };
+    saveSession(finished)
+      .then(refreshSessions)
+      .catch(e => console.error('Failed to save session', e));
+
+    if (transcriptions.some(t => t.role === 'user')) {
+      setLastSession(finished);
+      setIsSummarizing(true);
+      summarizeSession(createGenAI(), finished)
+        .then(summary => {
+          const summarized = { ...finished, summary };
+          setLastSession(current => (current?.id === finished.id ? summarized : current));
+          return saveSession(summarized).then(refreshSessions);
+        })
+        .catch(e => {
+          console.warn('Could not summarize the session', e);
+          setLastSession(current => (current?.id === finished.id ? null : current));
+        })
+        .finally(() => setIsSummarizing(false));
+    }
+
+    if (settings.learnFromSessions && transcriptions.some(t => t.role === 'user')) {
+      suggestProfileUpdates(createGenAI(), profile, transcriptions)
+        .then(setProfileSuggestions)
+        .catch(e => console.warn('Could not suggest profile updates', e));
+    }
+  }, [refreshSessions, settings.learnFromSessions, profile]);
+
+  const removeSession = useCallback((id: string) => {
+    deleteSession(id)
+      .then(refreshSessions)
+      .catch(e => console.error('Failed to delete session', e));
+  }, [refreshSessions]);
+
+  const stopVideo = useCallback(() => {
+    videoCaptureRef.current?.stop();
+    videoCaptureRef.current = null;
+    setVideoCapture(null);
+  }, []);
 
   const stopSession = useCallback(() => {
-    if (sessionRef.current) {
-      sessionRef.current.close();
-      sessionRef.current = null;
+    stopVideo();
+    if (backendRef.current) {
+      backendRef.current.close();
+      backendRef.current = null;
     }
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
     }
-    if (audioContextRef.current) {
-      audioContextRef.current.close().catch(() => {});
-      audioContextRef.current = null;
+    if (captureRef.current) {
+      captureRef.current.stop();
+      captureRef.current = null;
+    }
+    setInputAnalyser(null);
+    if (playbackRef.current) {
+      playbackRef.current.close();
+      playbackRef.current = null;
     }
     if (outputAudioContextRef.current) {
       outputAudioContextRef.current.close().catch(() => {});
       outputAudioContextRef.current = null;
     }
-    activeSourcesRef.current.forEach(source => {
-      try { source.stop(); } catch(e) {}
-    });
-    activeSourcesRef.current.clear();
     setIsSessionActive(false);
     setIsSpeaking(false);
-    nextStartTimeRef.current = 0;
+    setActiveLesson(null);
+    isMutedRef.current = false;
+    isTalkingRef.current = false;
+    setIsMuted(false);
+    setIsTalking(false);
+    finishSessionRecord();
+  }, [finishSessionRecord, stopVideo]);
+
+  const selectMode = useCallback((mode: ModeConfig) => {
+    setModeId(mode.id);
+    modeIdRef.current = mode.id;
+    // The system instruction is fixed once connected, so a mid-session switch is
+    // appended to the conversation context without asking the model for a reply.
+    backendRef.current?.sendText(buildModeSwitchMessage(mode), false);
+  }, []);
+
+  const updateSettings = useCallback((next: Settings) => {
+    setSettings(next);
+    saveSettings(next);
+  }, []);
+
+  const updateProfile = useCallback((next: UserProfile) => {
+    setProfile(next);
+    saveProfile(next);
+  }, []);
+
+  const applyProfileSuggestion = useCallback((suggestion: ProfileSuggestion) => {
+    updateProfile({ ...profile, [suggestion.field]: suggestion.value });
+    setProfileSuggestions(prev => prev.filter(s => s !== suggestion));
+  }, [profile, updateProfile]);
+
+  const dismissProfileSuggestion = useCallback((suggestion: ProfileSuggestion) => {
+    setProfileSuggestions(prev => prev.filter(s => s !== suggestion));
+  }, []);
+
+  const getDiagnosticsSnapshot = useCallback(() => diagnosticsRef.current?.snapshot() ?? null, []);
+
+  const togglePanel = (panel: SidePanel) => setOpenPanel(openPanel === panel ? null : panel);
+
+  const refreshInputDevices = useCallback(() => {
+    listAudioInputs()
+      .then(setInputDevices)
+      .catch(e => console.warn('Failed to list microphones', e));
+  }, []);
+
+  // Chunks produced before the session is open, or while reconnecting, are dropped rather than queued.
+  const sendAudioChunk = useCallback((pcm: Int16Array) => {
+    const isOpen = talkModeRef.current === 'push' ? isTalkingRef.current : !isMutedRef.current;
+    // The recording keeps its timeline by writing silence while the mic is closed.
+    recorderRef.current?.addUserAudio(isOpen ? pcm : new Int16Array(pcm.length));
+    if (!isOpen) return;
+    if (pcmLevel(pcm) > SPEECH_LEVEL) playbackRef.current?.noteUserInput();
+    const backend = backendRef.current;
+    if (backend?.isOpen) {
+      backend.sendAudio(pcm);
+      diagnosticsRef.current?.countSent('audio', pcm.byteLength);
+    } else {
+      diagnosticsRef.current?.countDropped('audio');
+    }
+  }, []);
+
+  const startCapture = useCallback(async (next: Settings) => {
+    const stream = await openMicrophone(next);
+    try {
+      const capture = await startAudioCapture(stream, sendAudioChunk);
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      captureRef.current?.stop();
+      streamRef.current = stream;
+      captureRef.current = capture;
+      setInputAnalyser(capture.analyser);
+      diagnosticsRef.current?.log('mic started', `${capture.deviceSampleRate} Hz`);
+    } catch (e) {
+      stream.getTracks().forEach(track => track.stop());
+      throw e;
+    }
+  }, [sendAudioChunk]);
+
+  const selectInputDevice = useCallback((inputDeviceId: string) => {
+    const next = { ...settings, inputDeviceId };
+    updateSettings(next);
+    // Hot-swap mid-session: the Live connection is untouched, only the capture graph is rebuilt.
+    if (captureRef.current) {
+      startCapture(next).catch(e => {
+        console.error(e);
+        setError('I couldn\'t switch to that microphone.');
+      });
+    }
+  }, [settings, updateSettings, startCapture]);
+
+  // Locking a phone suspends audio contexts (iOS reports "interrupted") and can end the mic track.
+  const resumeAudio = useCallback(() => {
+    [outputAudioContextRef.current, captureRef.current?.context].forEach(ctx => {
+      if (ctx && ctx.state !== 'running' && ctx.state !== 'closed') {
+        ctx.resume().catch(e => console.warn('Could not resume audio', e));
+      }
+    });
+    if (streamRef.current?.getAudioTracks().every(track => track.readyState === 'ended')) {
+      diagnosticsRef.current?.log('mic lost', 'restarting capture');
+      startCapture(settings).catch(e => {
+        console.error(e);
+        setError('I lost access to your microphone. Please end the call and start again.');
+      });
+    }
+  }, [settings, startCapture]);
+
+  const previewVoice = useCallback(
+    (voiceName: string) => playVoicePreview(createGenAI(), voiceName, settings.language),
+    [settings.language]
+  );
+
+  const startTalking = useCallback(() => {
+    if (talkModeRef.current !== 'push' || isTalkingRef.current) return;
+    isTalkingRef.current = true;
+    setIsTalking(true);
+    // With automatic activity detection off, the server relies on these markers to delimit turns.
+    backendRef.current?.sendActivity('start');
+  }, []);
+
+  const stopTalking = useCallback(() => {
+    if (!isTalkingRef.current) return;
+    isTalkingRef.current = false;
+    setIsTalking(false);
+    playbackRef.current?.noteUserInput();
+    backendRef.current?.sendActivity('end');
+  }, []);
+
+  const toggleMute = useCallback(() => {
+    const muted = !isMutedRef.current;
+    isMutedRef.current = muted;
+    setIsMuted(muted);
+    // Lets server-side detection close the user's turn instead of waiting on silence that never comes.
+    if (muted) backendRef.current?.sendActivity('streamEnd');
+  }, []);
+
+  const toggleVideo = useCallback(async (source: VideoSource) => {
+    const current = videoCaptureRef.current?.source;
+    stopVideo();
+    if (current === source) return;
+    const sessionBackend = backendRef.current;
+    try {
+      const capture = await startVideoCapture(
+        source,
+        data => {
+          const backend = backendRef.current;
+          if (!backend?.isOpen) {
+            diagnosticsRef.current?.countDropped('video');
+            return;
+          }
+          backend.sendVideoFrame(data);
+          diagnosticsRef.current?.countSent('video', Math.floor(data.length * 3 / 4));
+        },
+        () => {
+          if (videoCaptureRef.current === capture) stopVideo();
+        }
+      );
+      // The share picker can stay open past the end of the call, or past a newer request.
+      if (backendRef.current !== sessionBackend || !sessionBackend || videoCaptureRef.current) {
+        capture.stop();
+        return;
+      }
+      videoCaptureRef.current = capture;
+      setVideoCapture(capture);
+    } catch (e: any) {
+      // Dismissing the browser's share picker is not an error worth showing.
+      if (e?.name !== 'NotAllowedError' && e?.name !== 'AbortError') {
+        console.error(e);
+        setError(source === 'camera' ? 'I couldn\'t open your camera.' : 'I couldn\'t share your screen.');
+      }
+    }
+  }, [stopVideo]);
+
+  const sendText = useCallback((text: string) => {
+    const backend = backendRef.current;
+    if (!backend?.isOpen) return;
+    // Typed turns go through the same Live session, so the model still answers with audio.
+    backend.sendText(text);
+    playbackRef.current?.noteUserInput();
+    setTranscript(prev => appendTypedText(prev, text, Date.now()));
   }, []);
 
   const startSession = async () => {
+    // A second start while the first is still connecting would orphan its mic, audio context and socket.
+    if (isStartingRef.current) return;
+    isStartingRef.current = true;
     try {
       setError(null);
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
+      setConnectionStatus('connecting');
+      setTranscript(createTranscriptState());
+      setLastSession(null);
+      const lessonPlan = modeId === 'academic' && lessonSelection
+        ? buildLessonPlan(lessonSelection.topicId, lessonSelection.level)
+        : null;
+      sessionRecordRef.current = {
+        id: createSessionId(),
+        startedAt: Date.now(),
+        mode: modeId,
+        voice: settings.voiceName,
+        transcriptions: [],
+        ...(lessonPlan ? { lesson: { topicId: lessonPlan.topicId, level: lessonPlan.level, title: lessonPlan.title } } : {})
+      };
+      talkModeRef.current = settings.talkMode;
+      recorderRef.current = recordCall ? createSessionRecorder(sessionRecordRef.current.startedAt) : null;
 
-      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      
-      if (inputCtx.state === 'suspended') await inputCtx.resume();
+      const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: OUTPUT_SAMPLE_RATE });
       if (outputCtx.state === 'suspended') await outputCtx.resume();
-
-      audioContextRef.current = inputCtx;
       outputAudioContextRef.current = outputCtx;
 
       const analyzer = outputCtx.createAnalyser();
       analyzer.fftSize = 256;
+      analyzer.connect(outputCtx.destination);
       analyzerRef.current = analyzer;
+      const playback = createPlaybackQueue(outputCtx, analyzer, setIsSpeaking);
+      playbackRef.current = playback;
 
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true
-        } 
-      });
-      streamRef.current = stream;
+      // Study sessions add the lesson tools; grading results are saved as they come in.
+      setActiveLesson(lessonPlan ? { plan: lessonPlan, progress: null, stepIndex: null } : null);
+      const tools = lessonPlan
+        ? createToolRegistry([...LOCAL_TOOLS, ...createLessonTools(lessonPlan, (progress, stepIndex) => {
+            setActiveLesson({ plan: lessonPlan, progress, stepIndex });
+            setStudyProgress(loadStudyProgress());
+          })])
+        : toolRegistry;
+
+      const backend = createConversationBackend();
+      backendRef.current = backend;
+      const model = settings.model.trim() || DEFAULT_SETTINGS.model;
+
+      // Reads locals rather than refs so the numbers are still there for export after the call ends.
+      let inputSampleRate: number | null = null;
+      const diagnostics = createSessionDiagnostics(
+        { sessionId: sessionRecordRef.current.id, backend: backend.kind, model },
+        () => {
+          inputSampleRate = captureRef.current?.deviceSampleRate ?? inputSampleRate;
+          return {
+            status: backend.status,
+            reconnectCount: backend.reconnectCount,
+            inputSampleRate,
+            outputSampleRate: outputCtx.sampleRate,
+            playback: playback.metrics()
+          };
+        }
+      );
+      diagnosticsRef.current = diagnostics;
 
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        config: {
+      await startCapture(settings);
+      // Device labels are only exposed once the user has granted mic access.
+      refreshInputDevices();
+
+      await backend.connect({
+        model,
+        buildConfig: () => ({
           responseModalities: [Modality.AUDIO],
-          systemInstruction: SYSTEM_INSTRUCTION,
+          systemInstruction: buildSystemInstruction(getModeConfig(modeIdRef.current), settings.language, profile)
+            + (lessonPlan ? buildLessonInstruction(lessonPlan) : ''),
           speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } }
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voiceName } }
           },
+          tools: tools.tools,
+          ...(settings.talkMode === 'push'
+            ? { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } }
+            : {}),
           outputAudioTranscription: {},
           inputAudioTranscription: {}
+        }),
+        onMessage: async (message: LiveServerMessage) => {
+          const functionCalls = message.toolCall?.functionCalls;
+          if (functionCalls?.length) {
+            diagnostics.log('tool call', functionCalls.map(call => call.name).join(', '));
+            const invocations = await tools.run(functionCalls);
+            invocations.forEach(inv => {
+              setTranscript(prev => appendToolEvent(prev, inv.name, inv.summary, Date.now()));
+            });
+            backend.sendToolResponses(invocations.map(inv => inv.response));
+          }
+
+          const content = message.serverContent;
+          const audioData = content?.modelTurn?.parts?.[0]?.inlineData?.data;
+          if (audioData && playbackRef.current === playback) {
+            const pcm = new Int16Array(decode(audioData).buffer);
+            diagnostics.countReceived(pcm.byteLength);
+            recorderRef.current?.addModelAudio(pcm, playback.enqueue(pcm));
+          }
+          if (content?.outputTranscription?.text) playback.noteTranscript(content.outputTranscription.text);
+
+          if (content?.interrupted) {
+            recorderRef.current?.cutModelAudio(Date.now());
+            // Keep only what was actually played, so the transcript never claims Lumina said more than the user heard.
+            const heard = playback.interrupt();
+            diagnostics.log('interrupted', heard ? `heard ${heard.heardSeconds.toFixed(1)} s of ${heard.receivedSeconds.toFixed(1)} s` : 'nothing playing');
+            if (heard) setTranscript(prev => truncateModelTurn(prev, heard.heardChars, Date.now()));
+          }
+          if (content?.turnComplete) playback.endTurn();
+
+          setTranscript(prev => applyServerMessage(prev, message, Date.now()));
         },
-        callbacks: {
-          onopen: () => {
-            const source = inputCtx.createMediaStreamSource(stream);
-            const scriptProcessor = inputCtx.createScriptProcessor(4096, 1, 1);
-            
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const int16Data = float32ToInt16(inputData);
-              const pcmBase64 = encode(new Uint8Array(int16Data.buffer));
-              
-              sessionPromise.then(session => {
-                session.sendRealtimeInput({
-                  media: { data: pcmBase64, mimeType: 'audio/pcm;rate=16000' }
-                });
-              });
-            };
-
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputCtx.destination);
-          },
-          onmessage: async (message: LiveServerMessage) => {
-            const audioData = message.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (audioData) {
-              setIsSpeaking(true);
-              const decoded = decode(audioData);
-              const audioBuffer = await decodeAudioData(decoded, outputCtx, 24000, 1);
-              
-              const source = outputCtx.createBufferSource();
-              source.buffer = audioBuffer;
-              source.connect(analyzer);
-              analyzer.connect(outputCtx.destination);
-              
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputCtx.currentTime);
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += audioBuffer.duration;
-
-              source.onended = () => {
-                activeSourcesRef.current.delete(source);
-                if (activeSourcesRef.current.size === 0) {
-                  setIsSpeaking(false);
-                }
-              };
-              activeSourcesRef.current.add(source);
-            }
-
-            if (message.serverContent?.interrupted) {
-              activeSourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
-              activeSourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-              setIsSpeaking(false);
-            }
-
-            if (message.serverContent?.inputTranscription) {
-              const text = message.serverContent.inputTranscription.text;
-              if (text) setTranscriptions(prev => [...prev, { role: 'user', text }]);
-            }
-            if (message.serverContent?.outputTranscription) {
-              const text = message.serverContent.outputTranscription.text;
-              if (text) setTranscriptions(prev => [...prev, { role: 'model', text }]);
-            }
-          },
-          onerror: (e) => {
-            console.error(e);
-            setError('Something went wrong. Let\'s try again.');
+        onStatusChange: (status) => {
+          setConnectionStatus(status);
+          diagnostics.log('status', status);
+          if (status === 'reconnecting') {
+            // Fragments won't continue across sockets, so close whatever turn was streaming.
+            setTranscript(prev => closeOpenTurns(prev, Date.now()));
+          } else if (status === 'failed') {
+            setError('The connection was lost and your session has ended.');
             stopSession();
-          },
-          onclose: () => setIsSessionActive(false)
+          }
+        },
+        onError: (e) => diagnostics.error('socket error', e),
+        onReconnected: (resumed) => {
+          diagnostics.log('reconnected', resumed ? 'session resumed' : 'new session');
+          const history = sessionRecordRef.current?.transcriptions || [];
+          if (resumed || history.length === 0) return;
+          // Without a resumption handle the new session starts blank; replay the transcript as context.
+          backend.sendContext(history
+            .filter(t => t.role !== 'tool')
+            .map(t => ({ role: t.role, parts: [{ text: t.text }] })));
         }
       });
-
-      sessionRef.current = await sessionPromise;
+      // Live models wait for the user to speak first; a lesson should open with Lumina.
+      if (lessonPlan) backend.sendText(buildLessonStartMessage(lessonPlan));
       setIsSessionActive(true);
     } catch (err: any) {
+      diagnosticsRef.current?.error('start failed', err);
       setError(err.message || 'I couldn\'t access your microphone.');
       stopSession();
+      setConnectionStatus(status => (status === 'connecting' ? null : status));
+    } finally {
+      isStartingRef.current = false;
     }
   };
 
   useEffect(() => {
-    if (transcriptListRef.current) {
-      transcriptListRef.current.scrollTop = transcriptListRef.current.scrollHeight;
-    }
+    refreshSessions();
+  }, [refreshSessions]);
+
+  // Space bar acts as the push-to-talk button, except while typing.
+  useEffect(() => {
+    if (!isSessionActive || settings.talkMode !== 'push') return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || e.repeat || isTypingTarget(e)) return;
+      e.preventDefault();
+      startTalking();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || isTypingTarget(e)) return;
+      e.preventDefault();
+      stopTalking();
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', stopTalking);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', stopTalking);
+    };
+  }, [isSessionActive, settings.talkMode, startTalking, stopTalking]);
+
+  // Call shortcuts: Ctrl/Cmd+Enter starts or ends the call, Alt+M mutes, Alt+C toggles captions, Escape closes
+  // a panel. Mute and captions need a modifier (WCAG 2.1.4) and only apply in a call, so a stray key press or
+  // dictated word can't flip them. They match on `code`, since Alt+letter types a symbol on macOS.
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || isTypingTarget(e)) return;
+      if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+        e.preventDefault();
+        if (isSessionActive) stopSession();
+        else if (isOnline && connectionStatus !== 'connecting') startSession();
+        return;
+      }
+      if (e.ctrlKey || e.metaKey) return;
+      if (e.key === 'Escape' && !e.altKey && openPanel) {
+        setOpenPanel(null);
+      } else if (!e.altKey || e.shiftKey || !isSessionActive) {
+        return;
+      } else if (e.code === 'KeyM' && settings.talkMode === 'auto') {
+        e.preventDefault();
+        toggleMute();
+      } else if (e.code === 'KeyC') {
+        e.preventDefault();
+        updateSettings({ ...settings, showCaptions: !settings.showCaptions });
+      }
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isSessionActive, isOnline, connectionStatus, openPanel, settings, startSession, stopSession, toggleMute, updateSettings]);
+
+  useEffect(() => {
+    if (!isSessionActive) return;
+    const wakeLock = createScreenWakeLock();
+    wakeLock.acquire();
+
+    const onVisibilityChange = () => {
+      const visible = document.visibilityState === 'visible';
+      diagnosticsRef.current?.log(visible ? 'page visible' : 'page hidden');
+      if (visible) resumeAudio();
+    };
+    // Also catches suspensions that happen while visible, e.g. after a phone call ends.
+    const outputCtx = outputAudioContextRef.current;
+    const onStateChange = () => {
+      if (document.visibilityState === 'visible') resumeAudio();
+    };
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    outputCtx?.addEventListener('statechange', onStateChange);
+    return () => {
+      wakeLock.release();
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      outputCtx?.removeEventListener('statechange', onStateChange);
+    };
+  }, [isSessionActive, resumeAudio]);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  useEffect(() => {
+    refreshInputDevices();
+    navigator.mediaDevices?.addEventListener('devicechange', refreshInputDevices);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshInputDevices);
+  }, [refreshInputDevices]);
+
+  // Persist the running transcript as it grows so a closed tab doesn't lose the call.
+  useEffect(() => {
+    const record = sessionRecordRef.current;
+    if (!record || transcriptions.length === 0) return;
+    sessionRecordRef.current = { ...record, transcriptions };
+    saveSession(sessionRecordRef.current).catch(e => console.error('Failed to save session', e));
   }, [transcriptions]);
 
+  const lessonPending = modeId === 'academic' && lessonSelection !== null;
+  const lessonStep = activeLesson?.stepIndex ?? null;
+
+  // The first connect happens before isSessionActive is set, so 'connecting' is checked first.
+  const callAnnouncement = connectionStatus === 'connecting' ? 'Connecting'
+    : !isSessionActive
+      ? connectionStatus === 'failed' ? 'Session ended, connection lost' : connectionStatus === 'closed' ? 'Session ended' : ''
+    : connectionStatus === 'reconnecting' ? 'Reconnecting'
+    : isSpeaking ? 'Lumina is speaking'
+    : settings.talkMode === 'push' ? (isTalking ? 'Listening' : 'Hold space to talk')
+    : isMuted ? 'Microphone muted' : 'Listening';
+
   return (
     <div className="flex flex-col h-screen h-[100svh] bg-[#09090b] text-zinc-100 overflow-hidden relative">
       
       {/* BACKGROUND UI (Disabled visually during session) */}
-      <div className={`flex flex-col h-full transition-all duration-700 ${isSessionActive ? 'blur-2xl scale-95 opacity-30 pointer-events-none' : 'opacity-100 scale-100'}`}>
+      <div
+        inert={isSessionActive}
+        aria-hidden={isSessionActive}
+        className={`flex flex-col h-full transition-all duration-700 ${isSessionActive ? 'blur-2xl scale-95 opacity-30 pointer-events-none' : 'opacity-100 scale-100'}`}
+      >
         <header className="px-6 py-6 flex items-center justify-between safe-top">
           <div className="flex items-center gap-4">
-            <div className="w-12 h-12 rounded-2xl bg-gradient-to-tr from-indigo-500 to-purple-600 flex items-center justify-center">
+            <div
+              className="w-12 h-12 rounded-2xl flex items-center justify-center transition-colors duration-500"
+              style={{ background: `linear-gradient(to top right, ${activeMode.color}, #9333ea)` }}
+            >
               <span className="text-2xl font-bold tracking-tighter">L</span>
             </div>
             <div>
@@ -186,20 +646,94 @@ const App: React.FC = () => {
             </div>
           </div>
 
-          <button 
-            onClick={() => setIsTranscriptOpen(!isTranscriptOpen)}
-            className="p-3 rounded-xl bg-zinc-900 border border-zinc-800 text-zinc-400 hover:text-white transition-colors"
-          >
-            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
-            </svg>
-          </button>
+          <div className="flex items-center gap-3">
+            <button 
+              onClick={() => togglePanel('profile')}
+              aria-label={profileSuggestions.length > 0 ? `Your profile, ${profileSuggestions.length} suggested updates` : 'Your profile'}
+              aria-expanded={openPanel === 'profile'}
+              className="relative p-3 rounded-xl bg-zinc-900 border border-zinc-800 text-zinc-400 hover:text-white transition-colors"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M16 7a4 4 0 11-8 0 4 4 0 018 0zM12 14a7 7 0 00-7 7h14a7 7 0 00-7-7z" />
+              </svg>
+              {profileSuggestions.length > 0 && (
+                <span className="absolute -top-1 -right-1 w-4 h-4 rounded-full bg-indigo-500 text-[9px] font-bold text-white flex items-center justify-center">
+                  {profileSuggestions.length}
+                </span>
+              )}
+            </button>
+            <button 
+              onClick={() => togglePanel('settings')}
+              aria-label="Voice and speech settings"
+              aria-expanded={openPanel === 'settings'}
+              className="p-3 rounded-xl bg-zinc-900 border border-zinc-800 text-zinc-400 hover:text-white transition-colors"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+            </button>
+            <button 
+              onClick={() => togglePanel('history')}
+              aria-label="Session history"
+              aria-expanded={openPanel === 'history'}
+              className="p-3 rounded-xl bg-zinc-900 border border-zinc-800 text-zinc-400 hover:text-white transition-colors"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+              </svg>
+            </button>
+          </div>
         </header>
 
         <main className="flex-1 flex flex-col items-center justify-center p-6 text-center">
-          <div className="max-w-md space-y-6">
-            <h2 className="text-4xl font-light text-white leading-tight">Ready to talk?</h2>
-            <p className="text-zinc-500 text-lg font-light">Lumina is waiting for your voice. Tap the button in the center to begin your session.</p>
+          {lastSession ? (
+            <div className="w-full max-w-md max-h-[40vh] overflow-y-auto custom-scrollbar">
+              <SummaryCard
+                summary={lastSession.summary || null}
+                mode={getModeConfig(lastSession.mode)}
+                isLoading={isSummarizing && !lastSession.summary}
+                onDismiss={() => setLastSession(null)}
+              />
+            </div>
+          ) : !isOnline ? (
+            <div className="max-w-md space-y-6">
+              <h2 className="text-4xl font-light text-white leading-tight">You're offline</h2>
+              <p className="text-zinc-500 text-lg font-light">Lumina needs a connection to talk, but your past sessions are saved on this device.</p>
+              {sessions.length > 0 && (
+                <button
+                  onClick={() => togglePanel('history')}
+                  className="px-5 py-3 rounded-2xl bg-zinc-900 border border-zinc-800 text-sm text-zinc-200 hover:text-white transition-colors"
+                >
+                  Browse {sessions.length} past session{sessions.length === 1 ? '' : 's'}
+                </button>
+              )}
+            </div>
+          ) : (
+            <div className="max-w-md space-y-6">
+              <h2 className="text-4xl font-light text-white leading-tight">Ready to talk?</h2>
+              <p className="text-zinc-500 text-lg font-light">Pick an expert mode, then tap the button in the center to begin your session.</p>
+            </div>
+          )}
+          <div className="mt-auto w-full max-w-2xl space-y-3 safe-bottom">
+            {modeId === 'academic' && isOnline && (
+              <StudyPicker
+                selection={lessonSelection}
+                progress={studyProgress}
+                color={activeMode.color}
+                onSelect={setLessonSelection}
+              />
+            )}
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {MODES.map(mode => (
+                <ModeCard
+                  key={mode.id}
+                  mode={mode}
+                  isSelected={mode.id === modeId}
+                  onSelect={selectMode}
+                />
+              ))}
+            </div>
           </div>
         </main>
       </div>
@@ -213,7 +747,8 @@ const App: React.FC = () => {
             <Visualizer 
               isListening={isSessionActive && !isSpeaking} 
               isSpeaking={isSpeaking}
-              analyzer={analyzerRef.current || undefined}
+              analyzer={(isSpeaking ? analyzerRef.current : inputAnalyser) || undefined}
+              color={activeMode.color}
             />
           </div>
 
@@ -223,88 +758,247 @@ const App: React.FC = () => {
               <div className="flex flex-col items-center gap-4">
                 <button
                   onClick={startSession}
-                  className="group relative w-24 h-24 sm:w-28 sm:h-28 rounded-full bg-white text-black flex items-center justify-center shadow-[0_0_60px_rgba(255,255,255,0.15)] hover:scale-110 active:scale-95 transition-all duration-300"
+                  disabled={!isOnline || connectionStatus === 'connecting'}
+                  aria-label={lessonPending ? 'Start lesson' : 'Start session'}
+                  aria-keyshortcuts="Control+Enter Meta+Enter"
+                  className="group relative w-24 h-24 sm:w-28 sm:h-28 rounded-full bg-white text-black flex items-center justify-center shadow-[0_0_60px_rgba(255,255,255,0.15)] hover:scale-110 active:scale-95 transition-all duration-300 disabled:opacity-30 disabled:hover:scale-100"
                 >
                   <div className="absolute inset-0 rounded-full bg-gradient-to-tr from-indigo-500 to-pink-500 opacity-0 group-hover:opacity-30 transition-opacity animate-pulse" />
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-10 w-10 sm:h-12 sm:w-12" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
                   </svg>
                 </button>
-                <p className="text-zinc-500 text-[10px] font-bold uppercase tracking-[0.4em] animate-pulse">Start Session</p>
+                <p className="text-zinc-500 text-[10px] font-bold uppercase tracking-[0.4em] animate-pulse">{!isOnline ? 'Offline' : connectionStatus === 'connecting' ? 'Connecting…' : lessonPending ? 'Start Lesson' : 'Start Session'}</p>
+                <button
+                  onClick={() => setRecordCall(!recordCall)}
+                  aria-pressed={recordCall}
+                  className={`flex items-center gap-2 px-3 py-1.5 rounded-full border text-[10px] font-bold uppercase tracking-[0.2em] transition-colors ${
+                    recordCall ? 'border-red-500/60 text-red-400 bg-red-500/10' : 'border-zinc-800 text-zinc-600 hover:text-zinc-300'
+                  }`}
+                >
+                  <span className={`w-2 h-2 rounded-full ${recordCall ? 'bg-red-500' : 'bg-zinc-700'}`} />
+                  Record this call
+                </button>
+                <p className="hidden sm:block text-zinc-700 text-[10px] tracking-wide">
+                  Ctrl+Enter to start or end · In a call, Alt+M mute · Alt+C captions
+                </p>
+                {(connectionStatus === 'closed' || connectionStatus === 'failed') && (
+                  <p className="text-zinc-600 text-[10px] font-bold uppercase tracking-[0.3em]">
+                    {connectionStatus === 'failed' ? 'Session ended · connection lost' : 'Session ended'}
+                  </p>
+                )}
               </div>
             ) : (
               <div className="flex flex-col items-center gap-8 animate-in fade-in zoom-in duration-700">
                 <div className="space-y-2 text-center">
-                   <p className={`text-2xl sm:text-3xl font-medium tracking-tight transition-all duration-500 ${isSpeaking ? 'text-indigo-400 scale-105' : 'text-green-400 scale-100'}`}>
-                    {isSpeaking ? "Lumina is speaking" : "I'm listening..."}
-                  </p>
+                  {connectionStatus === 'reconnecting' ? (
+                    <p className="text-2xl sm:text-3xl font-medium tracking-tight text-amber-400 animate-pulse">
+                      Reconnecting…
+                    </p>
+                  ) : (
+                    <p
+                      className={`text-2xl sm:text-3xl font-medium tracking-tight transition-all duration-500 ${isSpeaking ? 'scale-105' : 'text-green-400 scale-100'}`}
+                      style={isSpeaking ? { color: activeMode.color } : undefined}
+                    >
+                      {isSpeaking
+                        ? "Lumina is speaking"
+                        : settings.talkMode === 'push'
+                          ? (isTalking ? "I'm listening..." : 'Hold to talk')
+                          : (isMuted ? 'Muted' : "I'm listening...")}
+                    </p>
+                  )}
+                  {activeLesson && (
+                    <p className="text-zinc-500 text-[10px] font-bold uppercase tracking-[0.3em]">
+                      {activeLesson.plan.title} · {lessonStep !== null
+                        ? `Step ${lessonStep + 1} of ${activeLesson.plan.steps.length}`
+                        : activeLesson.progress ? 'Lesson complete' : getStudyLevelLabel(activeLesson.plan.level)}
+                      {activeLesson.progress?.attempts ? ` · ${activeLesson.progress.correct}/${activeLesson.progress.attempts} correct` : ''}
+                    </p>
+                  )}
+                </div>
+
+                {settings.talkMode === 'push' ? (
+                  <button
+                    onPointerDown={e => { e.currentTarget.setPointerCapture(e.pointerId); startTalking(); }}
+                    onPointerUp={stopTalking}
+                    onPointerCancel={stopTalking}
+                    aria-label="Hold to talk"
+                    aria-pressed={isTalking}
+                    aria-keyshortcuts="Space"
+                    onContextMenu={e => e.preventDefault()}
+                    className={`w-20 h-20 rounded-full flex flex-col items-center justify-center gap-1 select-none touch-none transition-all ${
+                      isTalking ? 'bg-green-500 text-black scale-110 shadow-[0_0_40px_rgba(34,197,94,0.4)]' : 'bg-zinc-900 border border-zinc-700 text-zinc-300'
+                    }`}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-7 w-7" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+                    </svg>
+                    <span className="text-[8px] font-bold uppercase tracking-widest">Hold</span>
+                  </button>
+                ) : (
+                  <button
+                    onClick={toggleMute}
+                    title={isMuted ? 'Unmute microphone' : 'Mute microphone'}
+                    aria-label="Mute microphone"
+                    aria-pressed={isMuted}
+                    aria-keyshortcuts="Alt+M"
+                    className={`p-4 rounded-full border transition-colors ${
+                      isMuted ? 'bg-red-500/20 border-red-500/60 text-red-400' : 'bg-zinc-900 border-zinc-700 text-zinc-300 hover:text-white'
+                    }`}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+                      {isMuted && <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4l16 16" />}
+                    </svg>
+                  </button>
+                )}
+
+                <div className="flex items-center gap-2 w-full max-w-sm">
+                  <MicSelector
+                    devices={inputDevices}
+                    value={settings.inputDeviceId}
+                    onChange={selectInputDevice}
+                    className="flex-1 min-w-0"
+                  />
+                  <button
+                    onClick={() => toggleVideo('camera')}
+                    title={videoCapture?.source === 'camera' ? 'Turn camera off' : 'Show Lumina your camera'}
+                    aria-label="Share camera"
+                    aria-pressed={videoCapture?.source === 'camera'}
+                    className={`p-2.5 rounded-xl border transition-colors ${videoCapture?.source === 'camera' ? 'bg-white text-black border-white' : 'bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-white'}`}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                    </svg>
+                  </button>
+                  {'getDisplayMedia' in (navigator.mediaDevices || {}) && (
+                    <button
+                      onClick={() => toggleVideo('screen')}
+                      title={videoCapture?.source === 'screen' ? 'Stop sharing your screen' : 'Share your screen'}
+                      aria-label="Share screen"
+                      aria-pressed={videoCapture?.source === 'screen'}
+                      className={`p-2.5 rounded-xl border transition-colors ${videoCapture?.source === 'screen' ? 'bg-white text-black border-white' : 'bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-white'}`}
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
+                      </svg>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => updateSettings({ ...settings, showCaptions: !settings.showCaptions })}
+                    title={settings.showCaptions ? 'Hide captions' : 'Show captions'}
+                    aria-label="Live captions"
+                    aria-pressed={settings.showCaptions}
+                    aria-keyshortcuts="Alt+C"
+                    className={`px-2.5 py-2 rounded-xl border text-[11px] font-bold transition-colors ${settings.showCaptions ? 'bg-white text-black border-white' : 'bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-white'}`}
+                  >
+                    CC
+                  </button>
+                  <button
+                    onClick={() => setShowDiagnostics(show => !show)}
+                    title={showDiagnostics ? 'Hide diagnostics' : 'Show call diagnostics'}
+                    aria-label="Call diagnostics"
+                    aria-pressed={showDiagnostics}
+                    className={`p-2.5 rounded-xl border transition-colors ${showDiagnostics ? 'bg-white text-black border-white' : 'bg-zinc-900 border-zinc-800 text-zinc-400 hover:text-white'}`}
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                    </svg>
+                  </button>
+                </div>
+
+                {/* Mode switcher stays available while the background is locked */}
+                <div className="flex flex-wrap justify-center gap-2 max-w-sm">
+                  {MODES.map(mode => (
+                    <ModeCard
+                      key={mode.id}
+                      mode={mode}
+                      isSelected={mode.id === modeId}
+                      onSelect={selectMode}
+                      compact
+                    />
+                  ))}
                 </div>
                 
                 {/* LARGE LAUNCH-STYLE STOP BUTTON (Disables use of background app) */}
                 <button
                   onClick={stopSession}
+                  aria-keyshortcuts="Control+Enter Meta+Enter"
                   className="group relative w-32 sm:w-40 py-4 rounded-3xl bg-red-600 text-white flex items-center justify-center gap-3 shadow-[0_0_40px_rgba(220,38,38,0.3)] hover:bg-red-500 active:scale-95 transition-all font-bold uppercase tracking-widest text-xs"
                 >
                   <div className="w-2.5 h-2.5 bg-white rounded-full animate-pulse" />
                   End Call
                 </button>
+                {recordCall && (
+                  <p className="flex items-center gap-2 text-red-400 text-[10px] font-bold uppercase tracking-[0.3em]">
+                    <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+                    Recording
+                  </p>
+                )}
               </div>
             )}
           </div>
         </div>
       </div>
 
-      {/* Transcript Side Panel (Non-interactive during session) */}
-      <div className={`fixed inset-y-0 right-0 w-full sm:w-80 md:w-96 bg-zinc-950/95 backdrop-blur-3xl border-l border-zinc-800 transition-transform duration-500 z-40 shadow-2xl ${isTranscriptOpen && !isSessionActive ? 'translate-x-0' : 'translate-x-full'}`}>
-        <div className="flex flex-col h-full safe-top safe-bottom">
-          <div className="p-6 border-b border-zinc-800 flex items-center justify-between">
-            <h3 className="font-bold text-zinc-500 uppercase tracking-widest text-[10px]">Session History</h3>
-            <button 
-              onClick={() => setIsTranscriptOpen(false)}
-              className="p-2 hover:bg-zinc-900 rounded-lg text-zinc-500"
-            >
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-              </svg>
-            </button>
-          </div>
-          
-          <div 
-            ref={transcriptListRef}
-            className="flex-1 overflow-y-auto p-6 space-y-6 custom-scrollbar"
-          >
-            {transcriptions.length === 0 ? (
-              <div className="h-full flex items-center justify-center text-zinc-800 text-xs text-center px-10">
-                Transcriptions of your chats will appear here after you finish a session.
-              </div>
-            ) : (
-              transcriptions.map((t, i) => (
-                <div key={i} className={`flex flex-col ${t.role === 'user' ? 'items-end' : 'items-start'}`}>
-                  <div className={`max-w-[90%] rounded-2xl px-4 py-3 text-sm leading-relaxed ${
-                    t.role === 'user' 
-                      ? 'bg-indigo-600/10 text-indigo-100 border border-indigo-500/10' 
-                      : 'bg-zinc-900/50 text-zinc-300 border border-zinc-800'
-                  }`}>
-                    {t.text}
-                  </div>
-                </div>
-              ))
-            )}
-          </div>
-          
-          <div className="p-6 bg-zinc-950/80">
-            <button 
-              onClick={() => setTranscriptions([])}
-              className="w-full py-3 text-[10px] font-bold text-zinc-600 hover:text-white uppercase tracking-[0.3em] transition-colors"
-            >
-              Clear Records
-            </button>
-          </div>
+      {/* Camera / screen-share preview tile */}
+      {isSessionActive && videoCapture && (
+        <div className="fixed top-6 right-6 z-30 safe-top">
+          <VideoPreview stream={videoCapture.stream} source={videoCapture.source} onStop={stopVideo} />
         </div>
+      )}
+
+      {/* Live call metrics; stays up after the call so the log can be exported */}
+      {showDiagnostics && (
+        <DiagnosticsOverlay getSnapshot={getDiagnosticsSnapshot} onClose={() => setShowDiagnostics(false)} />
+      )}
+
+      {/* Text composer for typing into the live session, with live captions above it */}
+      {isSessionActive && (
+        <div className="fixed inset-x-0 bottom-0 z-30 flex flex-col items-center gap-3 px-4 pb-6 safe-bottom">
+          {settings.showCaptions && <LiveCaptions items={transcriptions} modelColor={activeMode.color} />}
+          <TextComposer onSend={sendText} disabled={connectionStatus !== 'open'} />
+        </div>
+      )}
+
+      {/* Voice & Speech Settings Panel (Non-interactive during session) */}
+      <SettingsPanel
+        isOpen={openPanel === 'settings' && !isSessionActive}
+        settings={settings}
+        inputDevices={inputDevices}
+        onChange={updateSettings}
+        onClose={() => setOpenPanel(null)}
+        onPreviewVoice={previewVoice}
+      />
+
+      {/* User Profile Side Panel (Non-interactive during session) */}
+      <ProfilePanel
+        isOpen={openPanel === 'profile' && !isSessionActive}
+        profile={profile}
+        suggestions={profileSuggestions}
+        learnFromSessions={settings.learnFromSessions}
+        onChange={updateProfile}
+        onLearnFromSessionsChange={learnFromSessions => updateSettings({ ...settings, learnFromSessions })}
+        onApplySuggestion={applyProfileSuggestion}
+        onDismissSuggestion={dismissProfileSuggestion}
+        onClose={() => setOpenPanel(null)}
+      />
+
+      {/* Session History Side Panel (Non-interactive during session) */}
+      <SessionHistoryPanel
+        isOpen={openPanel === 'history' && !isSessionActive}
+        sessions={sessions}
+        onClose={() => setOpenPanel(null)}
+        onDelete={removeSession}
+      />
+
+      {/* Spoken state changes for screen readers; the visual status line is not announced */}
+      <div role="status" aria-live="polite" className="sr-only">
+        {callAnnouncement}
       </div>
 
       {error && (
-        <div className="fixed bottom-10 left-1/2 -translate-x-1/2 px-8 py-4 bg-zinc-900 border border-red-500/50 text-red-400 text-sm font-medium rounded-2xl shadow-2xl z-50 flex items-center gap-3">
+        <div role="alert" className="fixed bottom-10 left-1/2 -translate-x-1/2 px-8 py-4 bg-zinc-900 border border-red-500/50 text-red-400 text-sm font-medium rounded-2xl shadow-2xl z-50 flex items-center gap-3">
           <div className="w-2 h-2 rounded-full bg-red-500 animate-ping" />
           {error}
         </div>
@@ -315,6 +1009,7 @@ const App: React.FC = () => {
         .custom-scrollbar::-webkit-scrollbar-thumb { background: #27272a; border-radius: 10px; }
         .safe-top { padding-top: env(safe-area-inset-top, 0); }
         .safe-bottom { padding-bottom: env(safe-area-inset-bottom, 0); }
+        :is(button, a, input, select, textarea, summary):focus-visible { outline: 2px solid #a5b4fc; outline-offset: 2px; }
       `}</style>
     </div>
   );
@@ -0,0 +1,100 @@
+
+import React, { useEffect, useState } from 'react';
+import { CAPTURE_SAMPLE_RATE } from '../services/audioCapture';
+import { DiagnosticsSnapshot, downloadDiagnostics } from '../services/diagnostics';
+
+interface DiagnosticsOverlayProps {
+  getSnapshot: () => DiagnosticsSnapshot | null;
+  onClose: () => void;
+}
+
+const REFRESH_MS = 500;
+
+const ms = (value: number | null | undefined) => (value === null || value === undefined ? '—' : `${Math.round(value)} ms`);
+const kb = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`;
+const hz = (rate: number | null) => (rate ? `${(rate / 1000).toFixed(rate % 1000 ? 1 : 0)} kHz` : '—');
+
+const Row: React.FC<{ label: string; value: string; warn?: boolean }> = ({ label, value, warn = false }) => (
+  <div className="flex justify-between gap-4">
+    <span className="text-zinc-500">{label}</span>
+    <span className={warn ? 'text-amber-400' : 'text-zinc-200'}>{value}</span>
+  </div>
+);
+
+export const DiagnosticsOverlay: React.FC<DiagnosticsOverlayProps> = ({ getSnapshot, onClose }) => {
+  const [snapshot, setSnapshot] = useState<DiagnosticsSnapshot | null>(getSnapshot);
+
+  useEffect(() => {
+    const timer = setInterval(() => setSnapshot(getSnapshot()), REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [getSnapshot]);
+
+  const audio = snapshot?.sent.audio;
+  const playback = snapshot?.playback;
+
+  return (
+    <div role="region" aria-label="Call diagnostics" className="fixed top-6 left-6 z-40 w-72 p-4 rounded-2xl bg-zinc-950/90 backdrop-blur-xl border border-zinc-800 shadow-2xl font-mono text-[10px] space-y-3 safe-top">
+      <div className="flex items-center justify-between">
+        <h3 className="font-bold text-zinc-500 uppercase tracking-widest">Diagnostics</h3>
+        <button onClick={onClose} title="Hide diagnostics" aria-label="Hide diagnostics" className="p-1 rounded-lg text-zinc-600 hover:text-white transition-colors">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {!snapshot || !audio ? (
+        <p className="text-zinc-500">Start a session to collect diagnostics.</p>
+      ) : (
+        <>
+          <section className="space-y-1">
+            <Row label="Connection" value={`${snapshot.status} (${snapshot.backend})`} warn={snapshot.status !== 'open'} />
+            <Row label="Reconnects" value={String(snapshot.reconnectCount)} warn={snapshot.reconnectCount > 0} />
+            <Row label="Errors" value={String(snapshot.errors)} warn={snapshot.errors > 0} />
+          </section>
+
+          <section className="space-y-1">
+            <Row label="Reply latency" value={ms(playback?.lastLatencyMs)} warn={(playback?.lastLatencyMs ?? 0) > 1500} />
+            <Row label="Average latency" value={ms(playback?.averageLatencyMs)} />
+            <Row label="Output queue" value={ms(playback?.bufferedMs)} />
+            <Row label="Arrival jitter" value={ms(playback?.jitterMs)} />
+            <Row label="Late chunks" value={String(playback?.underruns ?? 0)} warn={(playback?.underruns ?? 0) > 0} />
+            <Row label="Chunks received" value={`${snapshot.received.chunks} · ${kb(snapshot.received.bytes)}`} />
+          </section>
+
+          <section className="space-y-1">
+            <Row label="Mic chunks sent" value={`${audio.chunks} · ${kb(audio.bytes)}`} />
+            <Row label="Avg chunk size" value={audio.chunks ? `${Math.round(audio.bytes / audio.chunks)} B` : '—'} />
+            <Row label="Mic chunks dropped" value={String(audio.dropped)} warn={audio.dropped > 0} />
+            {snapshot.sent.video.chunks > 0 && (
+              <Row label="Video frames" value={`${snapshot.sent.video.chunks} · ${kb(snapshot.sent.video.bytes)}`} />
+            )}
+            <Row
+              label="Input rate"
+              value={`${hz(snapshot.inputSampleRate)} → ${hz(CAPTURE_SAMPLE_RATE)}`}
+              warn={snapshot.inputSampleRate !== null && snapshot.inputSampleRate !== CAPTURE_SAMPLE_RATE}
+            />
+            <Row label="Output rate" value={hz(snapshot.outputSampleRate)} />
+          </section>
+
+          {snapshot.events.length > 0 && (
+            <ul className="space-y-0.5 max-h-24 overflow-y-auto custom-scrollbar text-zinc-500">
+              {snapshot.events.slice(-6).reverse().map((event, i) => (
+                <li key={`${event.at}-${i}`} className="truncate" title={event.detail}>
+                  {new Date(event.at).toLocaleTimeString()} {event.type}{event.detail ? `: ${event.detail}` : ''}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <button
+            onClick={() => downloadDiagnostics(getSnapshot() || snapshot)}
+            className="w-full py-2 rounded-xl bg-zinc-900 border border-zinc-800 text-zinc-300 font-semibold hover:text-white transition-colors"
+          >
+            Export JSON
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+
+import React from 'react';
+import { TranscriptionItem } from '../types';
+
+interface LiveCaptionsProps {
+  items: TranscriptionItem[];
+  modelColor: string;
+}
+
+const MAX_CHARS = 160;
+
+/** Long turns scroll off the front, like broadcast captions, cut at a word boundary. */
+const tail = (text: string) =>
+  text.length > MAX_CHARS ? `…${text.slice(-MAX_CHARS).replace(/^\S*\s/, '')}` : text;
+
+export const LiveCaptions: React.FC<LiveCaptionsProps> = ({ items, modelColor }) => {
+  const lines = items.filter(t => t.role !== 'tool' && t.text).slice(-2);
+
+  return (
+    // Screen readers already hear the audio, so the strip is not a live region itself.
+    <div
+      role="log"
+      aria-label="Live captions"
+      aria-live="off"
+      className="w-full max-w-md min-h-[4.5rem] px-4 py-3 rounded-2xl bg-black/60 border border-zinc-800 text-left space-y-1.5"
+    >
+      {lines.length === 0 ? (
+        <p className="text-sm text-zinc-600">Captions will appear here as you talk.</p>
+      ) : (
+        lines.map(line => (
+          <p key={`${line.role}-${line.startedAt}`} className="text-sm sm:text-base leading-snug text-zinc-100">
+            <span
+              className="mr-2 text-[10px] font-bold uppercase tracking-widest"
+              style={{ color: line.role === 'model' ? modelColor : '#a1a1aa' }}
+            >
+              {line.role === 'model' ? 'Lumina' : 'You'}
+            </span>
+            {tail(line.text)}
+            {line.interrupted && <span className="text-zinc-500"> — interrupted</span>}
+          </p>
+        ))
+      )}
+    </div>
+  );
+};
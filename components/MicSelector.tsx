@@ -0,0 +1,30 @@
+
+import React from 'react';
+
+interface MicSelectorProps {
+  devices: MediaDeviceInfo[];
+  value: string;
+  onChange: (deviceId: string) => void;
+  className?: string;
+}
+
+export const MicSelector: React.FC<MicSelectorProps> = ({ devices, value, onChange, className = '' }) => (
+  <label className={`flex items-center gap-2 px-3 py-2 rounded-xl bg-zinc-900 border border-zinc-800 text-zinc-400 ${className}`}>
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+    </svg>
+    <select
+      value={value}
+      aria-label="Microphone"
+      onChange={e => onChange(e.target.value)}
+      className="flex-1 min-w-0 bg-transparent text-xs text-zinc-200 outline-none truncate"
+    >
+      <option value="">Default microphone</option>
+      {devices
+        .filter(d => d.deviceId && d.deviceId !== 'default')
+        .map((d, i) => (
+          <option key={d.deviceId} value={d.deviceId}>{d.label || `Microphone ${i + 1}`}</option>
+        ))}
+    </select>
+  </label>
+);
@@ -0,0 +1,45 @@
+
+import React from 'react';
+import { ModeConfig } from '../types';
+
+interface ModeCardProps {
+  mode: ModeConfig;
+  isSelected: boolean;
+  onSelect: (mode: ModeConfig) => void;
+  compact?: boolean;
+}
+
+export const ModeCard: React.FC<ModeCardProps> = ({ mode, isSelected, onSelect, compact = false }) => {
+  if (compact) {
+    return (
+      <button
+        onClick={() => onSelect(mode)}
+        title={mode.title}
+        aria-label={`${mode.title} mode`}
+        aria-pressed={isSelected}
+        className={`flex items-center gap-2 px-3 py-2 rounded-2xl border text-xs font-semibold transition-all ${
+          isSelected ? 'text-white' : 'bg-zinc-900/60 border-zinc-800 text-zinc-500 hover:text-zinc-200'
+        }`}
+        style={isSelected ? { borderColor: mode.color, backgroundColor: `${mode.color}26` } : undefined}
+      >
+        <span className="text-base leading-none" aria-hidden="true">{mode.icon}</span>
+        <span className="hidden sm:inline">{mode.title}</span>
+      </button>
+    );
+  }
+
+  return (
+    <button
+      onClick={() => onSelect(mode)}
+      aria-pressed={isSelected}
+      className={`flex flex-col items-start gap-2 p-4 rounded-2xl border text-left transition-all duration-300 hover:scale-[1.02] active:scale-95 ${
+        isSelected ? 'bg-zinc-900' : 'bg-zinc-950/60 border-zinc-800 hover:border-zinc-700'
+      }`}
+      style={isSelected ? { borderColor: mode.color, boxShadow: `0 0 30px ${mode.color}33` } : undefined}
+    >
+      <span className="text-2xl leading-none" aria-hidden="true">{mode.icon}</span>
+      <span className="text-sm font-semibold" style={{ color: isSelected ? mode.color : undefined }}>{mode.title}</span>
+      <span className="text-[11px] text-zinc-500 leading-snug">{mode.description}</span>
+    </button>
+  );
+};
@@ -0,0 +1,112 @@
+
+import React from 'react';
+import { PROFILE_FIELDS } from '../constants';
+import { ProfileSuggestion, UserProfile } from '../types';
+
+interface ProfilePanelProps {
+  isOpen: boolean;
+  profile: UserProfile;
+  suggestions: ProfileSuggestion[];
+  learnFromSessions: boolean;
+  onChange: (profile: UserProfile) => void;
+  onLearnFromSessionsChange: (enabled: boolean) => void;
+  onApplySuggestion: (suggestion: ProfileSuggestion) => void;
+  onDismissSuggestion: (suggestion: ProfileSuggestion) => void;
+  onClose: () => void;
+}
+
+const fieldLabel = (key: keyof UserProfile) => PROFILE_FIELDS.find(f => f.key === key)?.label || key;
+
+export const ProfilePanel: React.FC<ProfilePanelProps> = ({
+  isOpen,
+  profile,
+  suggestions,
+  learnFromSessions,
+  onChange,
+  onLearnFromSessionsChange,
+  onApplySuggestion,
+  onDismissSuggestion,
+  onClose
+}) => (
+  <div
+    role="dialog"
+    aria-label="What Lumina knows about me"
+    aria-hidden={!isOpen}
+    inert={!isOpen}
+    className={`fixed inset-y-0 right-0 w-full sm:w-80 md:w-96 bg-zinc-950/95 backdrop-blur-3xl border-l border-zinc-800 transition-transform duration-500 z-40 shadow-2xl ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}
+  >
+    <div className="flex flex-col h-full safe-top safe-bottom">
+      <div className="p-6 border-b border-zinc-800 flex items-center justify-between">
+        <h3 className="font-bold text-zinc-500 uppercase tracking-widest text-[10px]">What Lumina knows about me</h3>
+        <button
+          onClick={onClose}
+          aria-label="Close profile"
+          className="p-2 hover:bg-zinc-900 rounded-lg text-zinc-500"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6 space-y-8 custom-scrollbar">
+        {suggestions.length > 0 && (
+          <section className="space-y-3">
+            <h4 className="text-[10px] font-bold text-zinc-600 uppercase tracking-[0.3em]">Suggested from your last session</h4>
+            {suggestions.map(s => (
+              <div key={`${s.field}:${s.value}`} className="p-4 rounded-2xl bg-indigo-600/10 border border-indigo-500/20 space-y-2">
+                <p className="text-[10px] font-bold text-indigo-300 uppercase tracking-widest">{fieldLabel(s.field)}</p>
+                <p className="text-sm text-zinc-100">{s.value}</p>
+                <p className="text-[11px] text-zinc-500 italic">{s.reason}</p>
+                <div className="flex gap-2 pt-1">
+                  <button
+                    onClick={() => onApplySuggestion(s)}
+                    className="flex-1 py-2 rounded-xl bg-white text-black text-xs font-semibold hover:bg-zinc-200 transition-colors"
+                  >
+                    Save
+                  </button>
+                  <button
+                    onClick={() => onDismissSuggestion(s)}
+                    className="flex-1 py-2 rounded-xl bg-zinc-900 border border-zinc-800 text-xs font-semibold text-zinc-400 hover:text-white transition-colors"
+                  >
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+            ))}
+          </section>
+        )}
+
+        <section className="space-y-4">
+          {PROFILE_FIELDS.map(field => (
+            <label key={field.key} className="block space-y-1.5">
+              <span className="block text-[10px] font-bold text-zinc-600 uppercase tracking-[0.3em]">{field.label}</span>
+              <input
+                type="text"
+                value={profile[field.key]}
+                placeholder={field.placeholder}
+                onChange={e => onChange({ ...profile, [field.key]: e.target.value })}
+                className="w-full px-3 py-2 rounded-xl bg-zinc-900 border border-zinc-800 text-sm text-zinc-200 placeholder-zinc-700 outline-none focus:border-zinc-600"
+              />
+            </label>
+          ))}
+        </section>
+
+        <label className="flex items-center justify-between gap-4 cursor-pointer">
+          <span>
+            <span className="block text-sm text-zinc-200">Learn from my sessions</span>
+            <span className="block text-[10px] text-zinc-600">After each call, suggest updates for you to approve</span>
+          </span>
+          <input
+            type="checkbox"
+            checked={learnFromSessions}
+            onChange={e => onLearnFromSessionsChange(e.target.checked)}
+            className="w-4 h-4 accent-indigo-500"
+          />
+        </label>
+      </div>
+
+      <p className="p-6 text-[10px] text-zinc-600 text-center">Stored only on this device and added to Lumina's instructions when a session starts.</p>
+    </div>
+  </div>
+);
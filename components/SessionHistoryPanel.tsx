@@ -0,0 +1,232 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { getModeConfig } from '../constants';
+import { SummaryCard } from './SummaryCard';
+import { SessionRecord } from '../types';
+import { EXPORT_FORMATS, ExportFormat, copyTranscript, downloadTranscript, exportFileName } from '../services/transcriptExport';
+import { LESSON_STEP_TOOL } from '../services/lessonTools';
+
+interface SessionHistoryPanelProps {
+  isOpen: boolean;
+  sessions: SessionRecord[];
+  onClose: () => void;
+  onDelete: (id: string) => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const formatDuration = (record: SessionRecord) => {
+  if (!record.endedAt) return 'In progress';
+  const seconds = Math.max(0, Math.round((record.endedAt - record.startedAt) / 1000));
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+export const SessionHistoryPanel: React.FC<SessionHistoryPanelProps> = ({ isOpen, sessions, onClose, onDelete }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('markdown');
+  const [copyState, setCopyState] = useState<'idle' | 'copied' | 'failed'>('idle');
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
+  const transcriptListRef = useRef<HTMLDivElement>(null);
+
+  const selected = sessions.find(s => s.id === selectedId) || null;
+
+  useEffect(() => {
+    if (selectedId && !selected) setSelectedId(null);
+  }, [selectedId, selected]);
+
+  useEffect(() => {
+    setCopyState('idle');
+  }, [selectedId, exportFormat]);
+
+  useEffect(() => {
+    if (!selected?.recording) {
+      setRecordingUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(selected.recording);
+    setRecordingUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [selected?.recording]);
+
+  const copy = (record: SessionRecord) => {
+    copyTranscript(record, exportFormat)
+      .then(() => setCopyState('copied'))
+      .catch(() => setCopyState('failed'));
+  };
+
+  useEffect(() => {
+    if (transcriptListRef.current) {
+      transcriptListRef.current.scrollTop = transcriptListRef.current.scrollHeight;
+    }
+  }, [selected]);
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Session history"
+      aria-hidden={!isOpen}
+      inert={!isOpen}
+      className={`fixed inset-y-0 right-0 w-full sm:w-80 md:w-96 bg-zinc-950/95 backdrop-blur-3xl border-l border-zinc-800 transition-transform duration-500 z-40 shadow-2xl ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}
+    >
+      <div className="flex flex-col h-full safe-top safe-bottom">
+        <div className="p-6 border-b border-zinc-800 flex items-center justify-between gap-3">
+          {selected ? (
+            <button
+              onClick={() => setSelectedId(null)}
+              aria-label="Back to all sessions"
+              className="flex items-center gap-2 text-zinc-500 hover:text-white transition-colors"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+              <span className="font-bold uppercase tracking-widest text-[10px]">{formatDate(selected.startedAt)}</span>
+            </button>
+          ) : (
+            <h3 className="font-bold text-zinc-500 uppercase tracking-widest text-[10px]">Session History</h3>
+          )}
+          <button
+            onClick={onClose}
+            aria-label="Close session history"
+            className="p-2 hover:bg-zinc-900 rounded-lg text-zinc-500"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div
+          ref={transcriptListRef}
+          className="flex-1 overflow-y-auto p-6 space-y-6 custom-scrollbar"
+        >
+          {selected ? (
+            <>
+              {selected.summary && <SummaryCard summary={selected.summary} mode={getModeConfig(selected.mode)} />}
+              {selected.transcriptions.map((t, i) => t.toolName === LESSON_STEP_TOOL ? (
+                <div key={i} className="flex items-center gap-3 pt-2 text-[10px] font-bold uppercase tracking-widest text-zinc-400">
+                  <span className="flex-1 h-px bg-zinc-800" />
+                  <span>{t.text}</span>
+                  <span className="flex-1 h-px bg-zinc-800" />
+                </div>
+              ) : t.role === 'tool' ? (
+                <div key={i} className="flex items-center justify-center gap-2 text-[11px] text-zinc-500">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3.5 w-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.42 15.17L17.25 21A2.652 2.652 0 0021 17.25l-5.877-5.877M11.42 15.17l2.496-3.03c.317-.384.74-.626 1.208-.766M11.42 15.17l-4.655 5.653a2.548 2.548 0 11-3.586-3.586l6.837-5.63m5.108-.233c.55-.164 1.163-.188 1.743-.14a4.5 4.5 0 004.486-6.336l-3.276 3.277a3.004 3.004 0 01-2.25-2.25l3.276-3.276a4.5 4.5 0 00-6.336 4.486c.091 1.076-.071 2.264-.904 2.95l-.102.085" />
+                  </svg>
+                  <span>{t.text}</span>
+                </div>
+              ) : (
+                <div key={i} className={`flex flex-col ${t.role === 'user' ? 'items-end' : 'items-start'}`}>
+                  <div className={`max-w-[90%] rounded-2xl px-4 py-3 text-sm leading-relaxed ${
+                    t.role === 'user'
+                      ? 'bg-indigo-600/10 text-indigo-100 border border-indigo-500/10'
+                      : 'bg-zinc-900/50 text-zinc-300 border border-zinc-800'
+                  }`}>
+                    {t.text}
+                  </div>
+                  {t.interrupted && (
+                    <span className="mt-1 px-1 text-[10px] text-zinc-600 uppercase tracking-widest">Interrupted</span>
+                  )}
+                </div>
+              ))}
+            </>
+          ) : sessions.length === 0 ? (
+            <div className="h-full flex items-center justify-center text-zinc-800 text-xs text-center px-10">
+              Transcriptions of your chats will appear here after you finish a session.
+            </div>
+          ) : (
+            sessions.map(session => {
+              const mode = getModeConfig(session.mode);
+              const preview = session.transcriptions.find(t => t.role === 'user')?.text || session.transcriptions[0]?.text;
+              return (
+                <div
+                  key={session.id}
+                  className="group flex items-start gap-3 p-4 rounded-2xl bg-zinc-900/50 border border-zinc-800 hover:border-zinc-700 transition-colors"
+                >
+                  <button onClick={() => setSelectedId(session.id)} className="flex-1 min-w-0 flex items-start gap-3 text-left">
+                    <span className="text-xl leading-none">{mode.icon}</span>
+                    <span className="flex-1 min-w-0 space-y-1">
+                      <span className="block text-xs font-semibold" style={{ color: mode.color }}>
+                        {session.lesson ? `${session.lesson.title} lesson` : mode.title} · {formatDate(session.startedAt)}
+                      </span>
+                      <span className="block text-sm text-zinc-400 truncate">{preview}</span>
+                      <span className="block text-[10px] text-zinc-600 uppercase tracking-widest">
+                        {formatDuration(session)} · {session.voice}
+                      </span>
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => onDelete(session.id)}
+                    title="Delete session"
+                    aria-label="Delete session"
+                    className="p-1 rounded-lg text-zinc-700 hover:text-red-400 transition-colors"
+                  >
+                    <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                    </svg>
+                  </button>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        {selected && (
+          <div className="p-6 bg-zinc-950/80 space-y-3">
+            {recordingUrl && (
+              <div className="flex items-center gap-2">
+                <audio src={recordingUrl} controls className="flex-1 h-9" />
+                <a
+                  href={recordingUrl}
+                  download={exportFileName(selected, 'wav')}
+                  title="Download recording"
+                  aria-label="Download recording"
+                  className="p-2 rounded-xl bg-zinc-900 border border-zinc-800 text-zinc-400 hover:text-white transition-colors"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+                  </svg>
+                </a>
+              </div>
+            )}
+            <div className="flex gap-1 p-1 rounded-xl bg-zinc-900 border border-zinc-800">
+              {EXPORT_FORMATS.map(f => (
+                <button
+                  key={f.id}
+                  onClick={() => setExportFormat(f.id)}
+                  aria-pressed={exportFormat === f.id}
+                  className={`flex-1 py-1.5 rounded-lg text-[10px] font-bold uppercase tracking-widest transition-colors ${
+                    exportFormat === f.id ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-200'
+                  }`}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => downloadTranscript(selected, exportFormat)}
+                className="flex-1 py-2.5 rounded-xl bg-white text-black text-xs font-semibold hover:bg-zinc-200 transition-colors"
+              >
+                Download
+              </button>
+              <button
+                onClick={() => copy(selected)}
+                className="flex-1 py-2.5 rounded-xl bg-zinc-900 border border-zinc-800 text-xs font-semibold text-zinc-300 hover:text-white transition-colors"
+              >
+                {copyState === 'copied' ? 'Copied' : copyState === 'failed' ? 'Copy failed' : 'Copy'}
+              </button>
+            </div>
+            <button
+              onClick={() => onDelete(selected.id)}
+              className="w-full py-3 text-[10px] font-bold text-zinc-600 hover:text-white uppercase tracking-[0.3em] transition-colors"
+            >
+              Delete Session
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
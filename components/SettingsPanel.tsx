@@ -0,0 +1,190 @@
+
+import React, { useState } from 'react';
+import { LANGUAGES, LIVE_MODELS, VOICES } from '../constants';
+import { Settings, TalkMode } from '../types';
+import { MicSelector } from './MicSelector';
+
+interface SettingsPanelProps {
+  isOpen: boolean;
+  settings: Settings;
+  inputDevices: MediaDeviceInfo[];
+  onChange: (settings: Settings) => void;
+  onClose: () => void;
+  onPreviewVoice: (voiceName: string) => Promise<void>;
+}
+
+const MIC_OPTIONS: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; label: string; hint: string }[] = [
+  { key: 'echoCancellation', label: 'Echo cancellation', hint: 'Stops Lumina hearing herself on speakers' },
+  { key: 'noiseSuppression', label: 'Noise suppression', hint: 'Filters steady background noise' },
+  { key: 'autoGainControl', label: 'Auto gain', hint: 'Evens out quiet and loud speech' }
+];
+
+const TALK_MODES: { id: TalkMode; label: string; hint: string }[] = [
+  { id: 'auto', label: 'Hands-free', hint: 'Lumina detects when you speak' },
+  { id: 'push', label: 'Push to talk', hint: 'Hold the button or space bar' }
+];
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ isOpen, settings, inputDevices, onChange, onClose, onPreviewVoice }) => {
+  const [previewing, setPreviewing] = useState<string | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const update = <K extends keyof Settings>(key: K, value: Settings[K]) => onChange({ ...settings, [key]: value });
+
+  const preview = async (voiceName: string) => {
+    setPreviewing(voiceName);
+    setPreviewError(null);
+    try {
+      await onPreviewVoice(voiceName);
+    } catch (e: any) {
+      setPreviewError(e.message || 'The preview could not be played.');
+    } finally {
+      setPreviewing(null);
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-label="Voice and speech settings"
+      aria-hidden={!isOpen}
+      inert={!isOpen}
+      className={`fixed inset-y-0 right-0 w-full sm:w-80 md:w-96 bg-zinc-950/95 backdrop-blur-3xl border-l border-zinc-800 transition-transform duration-500 z-40 shadow-2xl ${isOpen ? 'translate-x-0' : 'translate-x-full'}`}
+    >
+      <div className="flex flex-col h-full safe-top safe-bottom">
+        <div className="p-6 border-b border-zinc-800 flex items-center justify-between">
+          <h3 className="font-bold text-zinc-500 uppercase tracking-widest text-[10px]">Voice & Speech</h3>
+          <button
+            onClick={onClose}
+            aria-label="Close settings"
+            className="p-2 hover:bg-zinc-900 rounded-lg text-zinc-500"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-8 custom-scrollbar">
+          <section className="space-y-3">
+            <h4 className="text-[10px] font-bold text-zinc-600 uppercase tracking-[0.3em]">Voice</h4>
+            <div className="grid grid-cols-2 gap-2">
+              {VOICES.map(voice => (
+                <div
+                  key={voice.name}
+                  className={`flex items-center justify-between gap-2 px-3 py-2 rounded-xl border transition-colors ${
+                    settings.voiceName === voice.name ? 'bg-zinc-900 border-zinc-600' : 'border-zinc-800 hover:border-zinc-700'
+                  }`}
+                >
+                  <button onClick={() => update('voiceName', voice.name)} aria-pressed={settings.voiceName === voice.name} className="flex-1 text-left">
+                    <span className="block text-sm text-zinc-200">{voice.name}</span>
+                    <span className="block text-[10px] text-zinc-600">{voice.description}</span>
+                  </button>
+                  <button
+                    onClick={() => preview(voice.name)}
+                    disabled={previewing !== null}
+                    title={`Preview ${voice.name}`}
+                    aria-label={`Preview ${voice.name}`}
+                    className="p-1 rounded-lg text-zinc-500 hover:text-white disabled:opacity-40 transition-colors"
+                  >
+                    {previewing === voice.name ? (
+                      <div className="w-4 h-4 rounded-full border-2 border-zinc-500 border-t-transparent animate-spin" />
+                    ) : (
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="currentColor" viewBox="0 0 24 24">
+                        <path d="M8 5v14l11-7z" />
+                      </svg>
+                    )}
+                  </button>
+                </div>
+              ))}
+            </div>
+            {previewError && <p role="alert" className="text-xs text-red-400">{previewError}</p>}
+          </section>
+
+          <section className="space-y-3">
+            <h4 className="text-[10px] font-bold text-zinc-600 uppercase tracking-[0.3em]">Response language</h4>
+            <select
+              value={settings.language}
+              aria-label="Response language"
+              onChange={e => update('language', e.target.value)}
+              className="w-full px-3 py-2 rounded-xl bg-zinc-900 border border-zinc-800 text-sm text-zinc-200 outline-none"
+            >
+              {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+            </select>
+          </section>
+
+          <section className="space-y-3">
+            <h4 className="text-[10px] font-bold text-zinc-600 uppercase tracking-[0.3em]">Talk mode</h4>
+            <div className="grid grid-cols-2 gap-2">
+              {TALK_MODES.map(mode => (
+                <button
+                  key={mode.id}
+                  onClick={() => update('talkMode', mode.id)}
+                  aria-pressed={settings.talkMode === mode.id}
+                  className={`px-3 py-2 rounded-xl border text-left transition-colors ${
+                    settings.talkMode === mode.id ? 'bg-zinc-900 border-zinc-600' : 'border-zinc-800 hover:border-zinc-700'
+                  }`}
+                >
+                  <span className="block text-sm text-zinc-200">{mode.label}</span>
+                  <span className="block text-[10px] text-zinc-600">{mode.hint}</span>
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <h4 className="text-[10px] font-bold text-zinc-600 uppercase tracking-[0.3em]">Microphone</h4>
+            <MicSelector
+              devices={inputDevices}
+              value={settings.inputDeviceId}
+              onChange={deviceId => update('inputDeviceId', deviceId)}
+            />
+            {MIC_OPTIONS.map(option => (
+              <label key={option.key} className="flex items-center justify-between gap-4 cursor-pointer">
+                <span>
+                  <span className="block text-sm text-zinc-200">{option.label}</span>
+                  <span className="block text-[10px] text-zinc-600">{option.hint}</span>
+                </span>
+                <input
+                  type="checkbox"
+                  checked={settings[option.key]}
+                  onChange={e => update(option.key, e.target.checked)}
+                  className="w-4 h-4 accent-indigo-500"
+                />
+              </label>
+            ))}
+          </section>
+
+          <section className="space-y-3">
+            <h4 className="text-[10px] font-bold text-zinc-600 uppercase tracking-[0.3em]">Captions</h4>
+            <label className="flex items-center justify-between gap-4 cursor-pointer">
+              <span>
+                <span className="block text-sm text-zinc-200">Live captions</span>
+                <span className="block text-[10px] text-zinc-600">Show what you and Lumina say during a call</span>
+              </span>
+              <input
+                type="checkbox"
+                checked={settings.showCaptions}
+                onChange={e => update('showCaptions', e.target.checked)}
+                className="w-4 h-4 accent-indigo-500"
+              />
+            </label>
+          </section>
+
+          <section className="space-y-3">
+            <h4 className="text-[10px] font-bold text-zinc-600 uppercase tracking-[0.3em]">Model</h4>
+            <select
+              value={settings.model}
+              aria-label="Live model"
+              onChange={e => update('model', e.target.value)}
+              className="w-full px-3 py-2 rounded-xl bg-zinc-900 border border-zinc-800 text-xs font-mono text-zinc-200 outline-none"
+            >
+              {LIVE_MODELS.map(m => <option key={m} value={m}>{m}</option>)}
+            </select>
+          </section>
+        </div>
+
+        <p className="p-6 text-[10px] text-zinc-600 text-center">Changes apply to your next session.</p>
+      </div>
+    </div>
+  );
+};
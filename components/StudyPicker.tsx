@@ -0,0 +1,109 @@
+
+import React from 'react';
+import { STUDY_LEVELS, getStudyLevelLabel } from '../constants';
+import { CURRICULUM, buildLessonPlan } from '../services/curriculum';
+import { LessonProgress, LessonSelection, StudyLevel } from '../types';
+
+interface StudyPickerProps {
+  selection: LessonSelection | null;
+  progress: LessonProgress[];
+  color: string;
+  onSelect: (selection: LessonSelection | null) => void;
+}
+
+const MAX_RECENT = 3;
+
+const percent = (p: LessonProgress) => (p.attempts ? `${Math.round((p.correct / p.attempts) * 100)}% correct` : 'No answers yet');
+
+export const StudyPicker: React.FC<StudyPickerProps> = ({ selection, progress, color, onSelect }) => {
+  const topic = CURRICULUM.find(t => t.id === selection?.topicId) || null;
+  const recent = progress
+    .slice()
+    .sort((a, b) => b.lastStudiedAt - a.lastStudiedAt)
+    .flatMap(p => {
+      const plan = buildLessonPlan(p.topicId, p.level);
+      return plan ? [{ progress: p, plan }] : [];
+    })
+    .slice(0, MAX_RECENT);
+
+  const selectTopic = (topicId: string) => {
+    const next = CURRICULUM.find(t => t.id === topicId);
+    if (!next) {
+      onSelect(null);
+      return;
+    }
+    const level = selection && next.levels[selection.level] ? selection.level : (Object.keys(next.levels)[0] as StudyLevel);
+    onSelect({ topicId: next.id, level });
+  };
+
+  return (
+    <section aria-label="Study session" className="w-full max-w-2xl p-4 rounded-2xl bg-zinc-950/60 border border-zinc-800 text-left space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="mr-auto text-[10px] font-bold text-zinc-500 uppercase tracking-widest">Study session</h3>
+        <select
+          value={selection?.topicId || ''}
+          aria-label="Lesson topic"
+          onChange={e => selectTopic(e.target.value)}
+          className="px-3 py-2 rounded-xl bg-zinc-900 border border-zinc-800 text-xs text-zinc-200 outline-none"
+        >
+          <option value="">Free conversation</option>
+          {CURRICULUM.map(t => (
+            <option key={t.id} value={t.id}>{t.subject}: {t.title}</option>
+          ))}
+        </select>
+        {topic && (
+          <div className="flex gap-1 p-1 rounded-xl bg-zinc-900 border border-zinc-800" role="group" aria-label="Level">
+            {STUDY_LEVELS.filter(l => topic.levels[l.id]).map(l => (
+              <button
+                key={l.id}
+                onClick={() => onSelect({ topicId: topic.id, level: l.id })}
+                aria-pressed={selection?.level === l.id}
+                className={`px-3 py-1 rounded-lg text-[11px] font-semibold transition-colors ${
+                  selection?.level === l.id ? 'bg-zinc-700 text-white' : 'text-zinc-500 hover:text-zinc-200'
+                }`}
+              >
+                {l.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {recent.length > 0 && (
+        <ul className="space-y-1.5" aria-label="Your progress">
+          {recent.map(({ progress: p, plan }) => {
+            const done = p.completedSteps.length;
+            const isSelected = selection?.topicId === p.topicId && selection.level === p.level;
+            return (
+              <li key={`${p.topicId}-${p.level}`}>
+                <button
+                  onClick={() => onSelect({ topicId: p.topicId, level: p.level })}
+                  aria-pressed={isSelected}
+                  className={`w-full flex items-center gap-3 px-3 py-2 rounded-xl border text-left transition-colors ${
+                    isSelected ? 'bg-zinc-900' : 'border-transparent hover:bg-zinc-900/60'
+                  }`}
+                  style={isSelected ? { borderColor: color } : undefined}
+                >
+                  <span className="flex-1 min-w-0">
+                    <span className="block text-xs font-semibold text-zinc-200 truncate">
+                      {plan.title} · {getStudyLevelLabel(p.level)}
+                    </span>
+                    <span className="block text-[10px] text-zinc-500">
+                      {done >= plan.steps.length ? 'Completed' : `${done} of ${plan.steps.length} steps`} · {percent(p)}
+                    </span>
+                  </span>
+                  <span className="w-16 h-1.5 rounded-full bg-zinc-800 overflow-hidden" aria-hidden="true">
+                    <span className="block h-full rounded-full" style={{ width: `${(done / plan.steps.length) * 100}%`, backgroundColor: color }} />
+                  </span>
+                  <span className="text-[10px] font-bold uppercase tracking-widest text-zinc-500">
+                    {done === 0 ? 'Start' : done >= plan.steps.length ? 'Review' : 'Resume'}
+                  </span>
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+};
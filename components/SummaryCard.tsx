@@ -0,0 +1,62 @@
+
+import React from 'react';
+import { ModeConfig, SessionSummary } from '../types';
+
+interface SummaryCardProps {
+  summary: SessionSummary | null;
+  mode: ModeConfig;
+  isLoading?: boolean;
+  onDismiss?: () => void;
+}
+
+const SECTIONS: { key: 'keyPoints' | 'actionItems' | 'followUpQuestions'; title: string }[] = [
+  { key: 'keyPoints', title: 'Key points' },
+  { key: 'actionItems', title: 'Action items' },
+  { key: 'followUpQuestions', title: 'Ask next time' }
+];
+
+export const SummaryCard: React.FC<SummaryCardProps> = ({ summary, mode, isLoading = false, onDismiss }) => (
+  <div className="w-full text-left p-5 rounded-3xl bg-zinc-900/70 border border-zinc-800 space-y-4" style={{ borderColor: `${mode.color}40` }}>
+    <div className="flex items-center justify-between gap-3">
+      <p className="flex items-center gap-2 text-[10px] font-bold uppercase tracking-[0.3em]" style={{ color: mode.color }}>
+        <span>{mode.icon}</span>
+        Session takeaways
+      </p>
+      {onDismiss && (
+        <button onClick={onDismiss} title="Dismiss" aria-label="Dismiss session takeaways" className="p-1 rounded-lg text-zinc-600 hover:text-white transition-colors">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      )}
+    </div>
+
+    {isLoading || !summary ? (
+      <div role="status" className="flex items-center gap-3 text-sm text-zinc-500">
+        <div className="w-4 h-4 rounded-full border-2 border-zinc-600 border-t-transparent animate-spin" />
+        Summarizing your session…
+      </div>
+    ) : (
+      <>
+        {SECTIONS.filter(section => summary[section.key].length > 0).map(section => (
+          <div key={section.key} className="space-y-1.5">
+            <h4 className="text-[10px] font-bold text-zinc-500 uppercase tracking-widest">{section.title}</h4>
+            <ul className="space-y-1 text-sm text-zinc-300 leading-relaxed">
+              {summary[section.key].map((item, i) => (
+                <li key={i} className="flex gap-2">
+                  <span className="text-zinc-600">{section.key === 'actionItems' ? '☐' : '•'}</span>
+                  <span>{item}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+        {summary.healthDisclaimer && (
+          <p className="text-[11px] text-amber-300/80 bg-amber-500/10 border border-amber-500/20 rounded-xl px-3 py-2">
+            This is general health information, not a diagnosis or prescription. Please see a qualified health professional about any symptoms or treatment.
+          </p>
+        )}
+      </>
+    )}
+  </div>
+);
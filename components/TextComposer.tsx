@@ -0,0 +1,46 @@
+
+import React, { useState } from 'react';
+
+interface TextComposerProps {
+  onSend: (text: string) => void;
+  disabled?: boolean;
+}
+
+export const TextComposer: React.FC<TextComposerProps> = ({ onSend, disabled = false }) => {
+  const [text, setText] = useState('');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const message = text.trim();
+    if (!message || disabled) return;
+    onSend(message);
+    setText('');
+  };
+
+  return (
+    <form
+      onSubmit={submit}
+      className="flex items-center gap-2 w-full max-w-md p-2 rounded-3xl bg-zinc-900/80 border border-zinc-800 backdrop-blur-xl"
+    >
+      <input
+        type="text"
+        value={text}
+        onChange={e => setText(e.target.value)}
+        placeholder={disabled ? 'Waiting for connection…' : 'Type a message…'}
+        aria-label="Message Lumina"
+        disabled={disabled}
+        className="flex-1 min-w-0 bg-transparent px-4 py-2 text-sm text-zinc-100 placeholder-zinc-600 outline-none disabled:opacity-50"
+      />
+      <button
+        type="submit"
+        disabled={disabled || !text.trim()}
+        aria-label="Send message"
+        className="p-3 rounded-2xl bg-white text-black disabled:bg-zinc-800 disabled:text-zinc-600 transition-colors"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h14M12 5l7 7-7 7" />
+        </svg>
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,37 @@
+
+import React, { useEffect, useRef } from 'react';
+import { VideoSource } from '../services/videoCapture';
+
+interface VideoPreviewProps {
+  stream: MediaStream;
+  source: VideoSource;
+  onStop: () => void;
+}
+
+export const VideoPreview: React.FC<VideoPreviewProps> = ({ stream, source, onStop }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    if (videoRef.current) videoRef.current.srcObject = stream;
+  }, [stream]);
+
+  return (
+    <div className="relative w-32 sm:w-44 aspect-video rounded-2xl overflow-hidden border border-zinc-700 bg-black shadow-2xl">
+      <video ref={videoRef} autoPlay muted playsInline aria-label={source === 'camera' ? 'Your camera preview' : 'Your screen share preview'} className={`w-full h-full ${source === 'camera' ? 'object-cover' : 'object-contain'}`} />
+      <div className="absolute top-1.5 left-1.5 flex items-center gap-1.5 px-2 py-0.5 rounded-full bg-black/60 text-[9px] font-bold uppercase tracking-widest text-white">
+        <span className="w-1.5 h-1.5 rounded-full bg-red-500 animate-pulse" />
+        {source === 'camera' ? 'Camera' : 'Screen'}
+      </div>
+      <button
+        onClick={onStop}
+        title="Stop sharing"
+        aria-label={source === 'camera' ? 'Turn camera off' : 'Stop sharing your screen'}
+        className="absolute top-1.5 right-1.5 p-1 rounded-full bg-black/60 text-zinc-300 hover:text-white"
+      >
+        <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+};
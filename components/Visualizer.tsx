@@ -5,9 +5,15 @@ interface VisualizerProps {
   isListening: boolean;
   isSpeaking: boolean;
   analyzer?: AnalyserNode;
+  color?: string;
 }
 
-export const Visualizer: React.FC<VisualizerProps> = ({ isListening, isSpeaking, analyzer }) => {
+const withAlpha = (hex: string, alpha: number): string => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+};
+
+export const Visualizer: React.FC<VisualizerProps> = ({ isListening, isSpeaking, analyzer, color = '#818cf8' }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   useEffect(() => {
@@ -44,7 +50,7 @@ export const Visualizer: React.FC<VisualizerProps> = ({ isListening, isSpeaking,
       // Outer Glow
       const gradient = ctx.createRadialGradient(centerX, centerY, baseRadius * 0.8, centerX, centerY, baseRadius * 1.8);
       if (isSpeaking) {
-        gradient.addColorStop(0, 'rgba(129, 140, 248, 0.2)');
+        gradient.addColorStop(0, withAlpha(color, 0.2));
         gradient.addColorStop(1, 'transparent');
       } else if (isListening) {
         gradient.addColorStop(0, 'rgba(34, 197, 94, 0.15)');
@@ -72,7 +78,7 @@ export const Visualizer: React.FC<VisualizerProps> = ({ isListening, isSpeaking,
         ctx.beginPath();
         ctx.moveTo(x1, y1);
         ctx.lineTo(x2, y2);
-        ctx.strokeStyle = isSpeaking ? '#818cf8' : (isListening ? '#4ade80' : '#475569');
+        ctx.strokeStyle = isSpeaking ? color : (isListening ? '#4ade80' : '#475569');
         ctx.lineWidth = Math.max(2, baseRadius / 25);
         ctx.lineCap = 'round';
         ctx.stroke();
@@ -81,18 +87,23 @@ export const Visualizer: React.FC<VisualizerProps> = ({ isListening, isSpeaking,
       // Core Circle - Fixed: Ensure radius is not negative
       ctx.beginPath();
       ctx.arc(centerX, centerY, Math.max(0, baseRadius - 2), 0, Math.PI * 2);
-      ctx.fillStyle = isSpeaking ? '#4f46e5' : (isListening ? '#16a34a' : '#27272a');
+      ctx.fillStyle = isSpeaking ? withAlpha(color, 0.85) : (isListening ? '#16a34a' : '#27272a');
       ctx.fill();
     };
 
     draw();
     return () => cancelAnimationFrame(animationId);
-  }, [analyzer, isListening, isSpeaking]);
+  }, [analyzer, isListening, isSpeaking, color]);
 
   return (
-    <div className="relative w-full aspect-square max-w-[320px] sm:max-w-[400px] flex items-center justify-center">
+    <div
+      role="img"
+      aria-label={isSpeaking ? 'Voice visualizer: Lumina is speaking' : isListening ? 'Voice visualizer: listening' : 'Voice visualizer: standby'}
+      className="relative w-full aspect-square max-w-[320px] sm:max-w-[400px] flex items-center justify-center"
+    >
       <canvas 
         ref={canvasRef} 
+        aria-hidden="true"
         className="w-full h-full"
       />
       {!isListening && !isSpeaking && (
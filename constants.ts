@@ -1,3 +1,5 @@
+import { AIMode, LanguageOption, LessonPlan, ModeConfig, Settings, StudyLevel, UserProfile, VoiceOption } from './types';
+
 
 export const SYSTEM_INSTRUCTION = `
 Role & Identity:
@@ -28,3 +30,179 @@ Safety & Ethics:
 - Avoid harmful, illegal, or unethical advice.
 - Respect privacy.
 `;
+
+export const MODES: ModeConfig[] = [
+  {
+    id: 'general',
+    title: 'Companion',
+    icon: '✨',
+    description: 'Everyday questions, ideas and a friendly chat.',
+    instruction: 'Act as a well-rounded companion. Move freely between topics and pick the most helpful expertise for each question.',
+    color: '#818cf8'
+  },
+  {
+    id: 'business',
+    title: 'Business',
+    icon: '📈',
+    description: 'Startups, marketing, sales and finance.',
+    instruction: 'Act as a business growth mentor. Focus on practical strategies for marketing, branding, sales, finance and operations. Ask about the size, stage and market of the business before recommending a plan, and keep profitability and sustainability in view.',
+    color: '#f59e0b'
+  },
+  {
+    id: 'academic',
+    title: 'Tutor',
+    icon: '🎓',
+    description: 'Explanations, study help and revision.',
+    instruction: 'Act as a patient academic tutor. Check the learner\'s level, explain one idea at a time with simple examples, and regularly ask short questions to confirm understanding. Suggest study techniques and summaries when useful.',
+    color: '#38bdf8'
+  },
+  {
+    id: 'health',
+    title: 'Wellbeing',
+    icon: '🩺',
+    description: 'General health and healthy habits.',
+    instruction: 'Act as a general health educator. Share educational information and healthy practices only. Never diagnose or prescribe, and clearly recommend a medical professional whenever symptoms sound serious or persistent.',
+    color: '#f43f5e'
+  },
+  {
+    id: 'agriculture',
+    title: 'Farming',
+    icon: '🌱',
+    description: 'Crops, soil and sustainable farming.',
+    instruction: 'Act as an agricultural extension advisor. Ask about the farmer\'s region, climate, crops and resources, then give practical advice on crop production, soil management, pests and sustainable techniques suited to that local context.',
+    color: '#22c55e'
+  },
+  {
+    id: 'creative',
+    title: 'Creative',
+    icon: '🎨',
+    description: 'Brainstorming, writing and content.',
+    instruction: 'Act as a creative partner. Brainstorm boldly, build on the user\'s ideas, offer several directions and help shape content, stories and artistic concepts.',
+    color: '#e879f9'
+  }
+];
+
+export const DEFAULT_MODE: AIMode = 'general';
+
+export const getModeConfig = (id: AIMode): ModeConfig =>
+  MODES.find(m => m.id === id) || MODES[0];
+
+export const PROFILE_FIELDS: { key: keyof UserProfile; label: string; placeholder: string }[] = [
+  { key: 'name', label: 'Name', placeholder: 'What should Lumina call you?' },
+  { key: 'businessType', label: 'Business', placeholder: 'e.g. Poultry farm, tailoring shop, tech startup' },
+  { key: 'region', label: 'Region', placeholder: 'e.g. Nakuru, Kenya' },
+  { key: 'crops', label: 'Crops & livestock', placeholder: 'e.g. Maize, beans, 200 layers' },
+  { key: 'studyLevel', label: 'Study level', placeholder: 'e.g. Form 3, first-year nursing' },
+  { key: 'preferences', label: 'Preferences', placeholder: 'e.g. Short answers, examples in KES' }
+];
+
+export const EMPTY_PROFILE: UserProfile = {
+  name: '',
+  businessType: '',
+  region: '',
+  crops: '',
+  studyLevel: '',
+  preferences: ''
+};
+
+const buildProfileSection = (profile: UserProfile): string => {
+  const known = PROFILE_FIELDS
+    .filter(f => profile[f.key].trim())
+    .map(f => `- ${f.label}: ${profile[f.key].trim()}`);
+  return known.length
+    ? `\nWhat You Know About The User (use it naturally; don't ask again for what is already known):\n${known.join('\n')}\n`
+    : '';
+};
+
+export const buildSystemInstruction = (
+  mode: ModeConfig,
+  language: string = 'auto',
+  profile: UserProfile = EMPTY_PROFILE
+): string => {
+  const languageLabel = LANGUAGES.find(l => l.code === language)?.label;
+  // Native-audio models pick their spoken language from the conversation, so the
+  // preference is stated in the instruction rather than in speechConfig.
+  const languageRule = language === 'auto' || !languageLabel
+    ? 'Reply in the language the user speaks to you.'
+    : `Always reply in ${languageLabel}, even if the user switches language, unless they ask you to change.`;
+
+  return `${SYSTEM_INSTRUCTION}
+Current Focus (${mode.title}):
+${mode.instruction}
+
+Language:
+${languageRule}
+${buildProfileSection(profile)}`;
+};
+
+export const buildModeSwitchMessage = (mode: ModeConfig): string =>
+  `[The user switched Lumina to ${mode.title} mode. Keep the conversation going, but from now on: ${mode.instruction}]`;
+
+export const STUDY_LEVELS: { id: StudyLevel; label: string }[] = [
+  { id: 'beginner', label: 'Beginner' },
+  { id: 'intermediate', label: 'Intermediate' }
+];
+
+export const getStudyLevelLabel = (level: StudyLevel): string =>
+  STUDY_LEVELS.find(l => l.id === level)?.label || level;
+
+/** Appended to the system instruction for guided study sessions; only the outline is given up front. */
+export const buildLessonInstruction = (plan: LessonPlan): string => `
+Guided Study Session (${plan.subject}: ${plan.title}, ${getStudyLevelLabel(plan.level)}):
+The student chose a structured lesson with these steps:
+${plan.steps.map((step, i) => `${i + 1}. ${step.title}`).join('\n')}
+- Call lesson_step to get the step to teach. It picks up where the student left off last time; tell them if they are resuming. If the lesson is already complete, offer to review a step of their choice.
+- Explain the step's key points in your own words, one at a time, with a simple example, and check they follow before moving on.
+- Then ask the step's quiz questions aloud, one at a time. Wait for an answer and pass it to grade_answer with the question id. Never mark answers yourself and never give the answer before it is graded.
+- Share the result warmly; when an answer is wrong, use the explanation to help them see why.
+- Once a step's questions are graded, call lesson_step again for the next step. When it reports the lesson is complete, congratulate them, sum up their score and suggest what to revise.
+`;
+
+export const buildLessonStartMessage = (plan: LessonPlan): string =>
+  `[The student is ready to start the ${plan.title} lesson. Greet them briefly and begin.]`;
+
+export const VOICES: VoiceOption[] = [
+  { name: 'Puck', description: 'Upbeat' },
+  { name: 'Charon', description: 'Informative' },
+  { name: 'Kore', description: 'Firm' },
+  { name: 'Fenrir', description: 'Excitable' },
+  { name: 'Aoede', description: 'Breezy' },
+  { name: 'Leda', description: 'Youthful' },
+  { name: 'Orus', description: 'Firm' },
+  { name: 'Zephyr', description: 'Bright' }
+];
+
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'auto', label: 'Match my language' },
+  { code: 'en-US', label: 'English' },
+  { code: 'sw-KE', label: 'Swahili' },
+  { code: 'fr-FR', label: 'French' },
+  { code: 'pt-BR', label: 'Portuguese' },
+  { code: 'es-ES', label: 'Spanish' },
+  { code: 'ar-EG', label: 'Arabic' },
+  { code: 'hi-IN', label: 'Hindi' }
+];
+
+/** Keep in step with LIVE_MODELS in server/tokenServer.mjs, which only issues tokens for these. */
+export const LIVE_MODELS = [
+  'gemini-2.5-flash-native-audio-preview-12-2025',
+  'gemini-live-2.5-flash-preview'
+];
+
+export const PREVIEW_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+export const DEFAULT_SETTINGS: Settings = {
+  voiceName: 'Puck',
+  inputDeviceId: '',
+  language: 'auto',
+  model: LIVE_MODELS[0],
+  talkMode: 'auto',
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  learnFromSessions: true,
+  showCaptions: true
+};
+
+/** Text model for post-session work such as profile suggestions. */
+export const TEXT_MODEL = 'gemini-2.5-flash';
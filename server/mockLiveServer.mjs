@@ -0,0 +1,211 @@
+
+/**
+ * A local stand-in for the Gemini Live websocket. It speaks enough of the
+ * BidiGenerateContent wire protocol for the app to run a full call offline:
+ * setup, scripted transcriptions, a synthetic 24 kHz voice, interruptions,
+ * tool calls and session resumption.
+ *
+ *   LUMINA_BACKEND=mock npm run dev   # in one terminal
+ *   npm run mock                      # in another
+ *
+ * Typed commands exercise the failure paths:
+ *   /drop   closes the socket as if the network went away (the app reconnects)
+ *   /error  rejects the session with a policy-violation close (the app gives up)
+ *   /long   gives a long answer so it can be interrupted by speaking or typing
+ *   convert ... triggers a `convert` tool call before answering
+ */
+import { WebSocketServer } from 'ws';
+
+const PORT = Number(process.env.MOCK_PORT || 8787);
+const OUTPUT_RATE = 24000;
+const FRAGMENT_MS = 250;
+/** RMS above which an input chunk counts as speech. */
+const SPEECH_RMS = 500;
+/** Silent 40 ms chunks after speech before the mock treats the turn as finished. */
+const END_OF_TURN_CHUNKS = 15;
+
+const SHORT_REPLY = ['Hello! ', 'This is the mock ', 'Lumina server. ', 'Everything is working.'];
+const LONG_REPLY = [
+  'Let me walk you through this slowly. ',
+  'First, we look at the soil. ',
+  'Then we think about the season. ',
+  'After that, the market prices. ',
+  'And finally, ',
+  'how much you can store. ',
+  'That is the whole plan.'
+];
+
+const send = (ws, message) => {
+  if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(message));
+};
+
+/** A soft sine "voice" so playback, the visualizer and the recorder all have something to chew on. */
+function synthesize(durationMs, pitch) {
+  const samples = Math.round(OUTPUT_RATE * durationMs / 1000);
+  const pcm = new Int16Array(samples);
+  const fade = Math.round(OUTPUT_RATE * 0.01);
+  for (let i = 0; i < samples; i++) {
+    const envelope = Math.min(1, i / fade, (samples - 1 - i) / fade);
+    pcm[i] = Math.round(Math.sin(2 * Math.PI * pitch * i / OUTPUT_RATE) * 0.2 * envelope * 0x7FFF);
+  }
+  return Buffer.from(pcm.buffer).toString('base64');
+}
+
+function rms(base64) {
+  const bytes = Buffer.from(base64, 'base64');
+  const pcm = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+  let sum = 0;
+  for (let i = 0; i < pcm.length; i++) sum += pcm[i] * pcm[i];
+  return pcm.length ? Math.sqrt(sum / pcm.length) : 0;
+}
+
+let handleCounter = 0;
+
+function handleConnection(ws) {
+  let configured = false;
+  let resumable = false;
+  let reply = null;
+  let pendingTool = null;
+  let speechChunks = 0;
+  let silentChunks = 0;
+
+  const stopReply = () => {
+    if (!reply) return false;
+    clearTimeout(reply.timer);
+    reply = null;
+    return true;
+  };
+
+  const interrupt = () => {
+    if (stopReply()) send(ws, { serverContent: { interrupted: true } });
+  };
+
+  const speak = (userText, fragments) => {
+    stopReply();
+    if (userText) {
+      send(ws, { serverContent: { inputTranscription: { text: userText } } });
+    }
+    const current = { timer: null };
+    reply = current;
+    let index = 0;
+    const next = () => {
+      if (reply !== current) return;
+      if (index === fragments.length) {
+        reply = null;
+        send(ws, { serverContent: { turnComplete: true } });
+        if (resumable) {
+          send(ws, { sessionResumptionUpdate: { newHandle: `mock-handle-${++handleCounter}`, resumable: true } });
+        }
+        return;
+      }
+      const text = fragments[index++];
+      send(ws, { serverContent: { outputTranscription: { text } } });
+      send(ws, {
+        serverContent: {
+          modelTurn: {
+            role: 'model',
+            parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_RATE}`, data: synthesize(FRAGMENT_MS, 220 + index * 30) } }]
+          }
+        }
+      });
+      current.timer = setTimeout(next, FRAGMENT_MS);
+    };
+    next();
+  };
+
+  const answerText = (text) => {
+    const command = text.trim().toLowerCase();
+    if (command === '/drop') {
+      ws.terminate();
+    } else if (command === '/error') {
+      ws.close(1008, 'Mock rejected the session');
+    } else if (command === '/long') {
+      speak(null, LONG_REPLY);
+    } else if (command.includes('convert')) {
+      pendingTool = `mock-call-${Date.now()}`;
+      send(ws, {
+        toolCall: { functionCalls: [{ id: pendingTool, name: 'convert', args: { amount: 2, from: 'acre', to: 'ha' } }] }
+      });
+    } else {
+      speak(null, SHORT_REPLY);
+    }
+  };
+
+  const endSpokenTurn = () => {
+    if (speechChunks === 0) return;
+    const seconds = (speechChunks * 0.04).toFixed(1);
+    speechChunks = 0;
+    silentChunks = 0;
+    speak(`(mock) about ${seconds} seconds of speech`, SHORT_REPLY);
+  };
+
+  const onAudio = (base64) => {
+    if (rms(base64) >= SPEECH_RMS) {
+      if (speechChunks === 0) interrupt();
+      speechChunks++;
+      silentChunks = 0;
+    } else if (speechChunks > 0 && ++silentChunks >= END_OF_TURN_CHUNKS) {
+      endSpokenTurn();
+    }
+  };
+
+  ws.on('message', (raw) => {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch (e) {
+      console.warn('Ignoring malformed client message', e);
+      return;
+    }
+
+    if (message.setup) {
+      configured = true;
+      resumable = !!message.setup.sessionResumption;
+      const resumed = !!message.setup.sessionResumption?.handle;
+      console.log(`Session set up for ${message.setup.model}${resumed ? ' (resumed)' : ''}`);
+      send(ws, { setupComplete: {} });
+      return;
+    }
+    if (!configured) {
+      ws.close(1008, 'setup must be the first message');
+      return;
+    }
+
+    const input = message.realtimeInput;
+    if (input) {
+      const chunks = input.mediaChunks || (input.audio ? [input.audio] : []);
+      chunks.filter(c => c.mimeType?.startsWith('audio/')).forEach(c => onAudio(c.data));
+      if (input.activityStart) {
+        interrupt();
+        speechChunks = 0;
+      }
+      if (input.activityEnd || input.audioStreamEnd) endSpokenTurn();
+      if (input.text) answerText(input.text);
+      return;
+    }
+
+    if (message.clientContent) {
+      const { turns = [], turnComplete } = message.clientContent;
+      if (!turnComplete) return;
+      interrupt();
+      const last = turns[turns.length - 1];
+      const text = (last?.parts || []).map(p => p.text || '').join('');
+      answerText(text);
+      return;
+    }
+
+    if (message.toolResponse) {
+      const response = (message.toolResponse.functionResponses || []).find(r => r.id === pendingTool);
+      if (!response) return;
+      pendingTool = null;
+      const result = response.response?.result;
+      speak(null, result !== undefined ? ['Two acres ', `is about ${result} hectares.`] : ['That conversion failed.']);
+    }
+  });
+
+  ws.on('close', () => stopReply());
+}
+
+const server = new WebSocketServer({ port: PORT });
+server.on('connection', handleConnection);
+server.on('listening', () => console.log(`Mock Live server listening on ws://localhost:${PORT}`));
@@ -0,0 +1,240 @@
+
+/**
+ * Keeps the Gemini API key on the server. The browser asks for a short-lived,
+ * single-use token before each Live connection, locked to the requested Live
+ * model. The few REST calls the app makes (summaries, profile suggestions, voice
+ * previews) go through /api/genai, which forwards only those generateContent
+ * calls, with the key attached.
+ *
+ *   GEMINI_API_KEY=... npm run server
+ *
+ * The key is also read from .env.local / .env. Limits are configurable:
+ *   TOKEN_SERVER_PORT      port to listen on (8788)
+ *   TOKENS_PER_MINUTE      Live tokens per client per minute (6)
+ *   REQUESTS_PER_MINUTE    proxied REST calls per client per minute (30)
+ *   DAILY_SESSION_QUOTA    Live tokens across all clients per UTC day (500)
+ *   TRUST_PROXY            set to 1 behind a reverse proxy to key clients on X-Forwarded-For
+ *   ALLOWED_ORIGINS        comma-separated origins that may call the server cross-origin
+ */
+import { createServer } from 'node:http';
+import { existsSync, readFileSync } from 'node:fs';
+import { GoogleGenAI, Modality } from '@google/genai';
+
+const UPSTREAM = 'https://generativelanguage.googleapis.com';
+const MINUTE_MS = 60_000;
+/** How long a token stays valid for an already open session. */
+const TOKEN_TTL_MS = 30 * MINUTE_MS;
+/** How long the browser has to open a session with a fresh token. */
+const NEW_SESSION_WINDOW_MS = MINUTE_MS;
+const MAX_BODY_BYTES = 1024 * 1024;
+/** Keep in step with LIVE_MODELS in constants.ts. */
+const LIVE_MODELS = ['gemini-2.5-flash-native-audio-preview-12-2025', 'gemini-live-2.5-flash-preview'];
+/** The only upstream calls the app makes (TEXT_MODEL and PREVIEW_TTS_MODEL in constants.ts). */
+const PROXIED_PATH = /^\/v1beta\/models\/(gemini-2\.5-flash|gemini-2\.5-flash-preview-tts):generateContent$/;
+
+function loadEnvFiles() {
+  for (const file of ['.env.local', '.env']) {
+    if (!existsSync(file)) continue;
+    for (const line of readFileSync(file, 'utf8').split('\n')) {
+      const match = line.match(/^\s*([\w.]+)\s*=\s*(.*?)\s*$/);
+      if (!match || line.trimStart().startsWith('#')) continue;
+      const value = match[2].replace(/^(['"])(.*)\1$/, '$2');
+      if (process.env[match[1]] === undefined) process.env[match[1]] = value;
+    }
+  }
+}
+
+loadEnvFiles();
+
+const apiKey = process.env.GEMINI_API_KEY;
+if (!apiKey) {
+  console.error('GEMINI_API_KEY is not set. Add it to .env.local or the environment.');
+  process.exit(1);
+}
+
+const PORT = Number(process.env.TOKEN_SERVER_PORT || 8788);
+const TOKENS_PER_MINUTE = Number(process.env.TOKENS_PER_MINUTE || 6);
+const REQUESTS_PER_MINUTE = Number(process.env.REQUESTS_PER_MINUTE || 30);
+const DAILY_SESSION_QUOTA = Number(process.env.DAILY_SESSION_QUOTA || 500);
+const TRUST_PROXY = process.env.TRUST_PROXY === '1';
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || '').split(',').map(o => o.trim()).filter(Boolean);
+
+const ai = new GoogleGenAI({ apiKey });
+
+class HttpError extends Error {
+  constructor(status, message, retryAfterSeconds) {
+    super(message);
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+/** Sliding one-minute window per client. Returns seconds until the next slot, or 0 if allowed. */
+function createRateLimiter(limit) {
+  const hits = new Map();
+  setInterval(() => {
+    const cutoff = Date.now() - MINUTE_MS;
+    for (const [client, times] of hits) {
+      if (times[times.length - 1] <= cutoff) hits.delete(client);
+    }
+  }, MINUTE_MS).unref();
+
+  return (client) => {
+    const now = Date.now();
+    const times = (hits.get(client) || []).filter(t => t > now - MINUTE_MS);
+    if (times.length >= limit) {
+      hits.set(client, times);
+      return Math.ceil((times[0] + MINUTE_MS - now) / 1000);
+    }
+    times.push(now);
+    hits.set(client, times);
+    return 0;
+  };
+}
+
+const tokenLimiter = createRateLimiter(TOKENS_PER_MINUTE);
+const proxyLimiter = createRateLimiter(REQUESTS_PER_MINUTE);
+
+const quota = { day: '', used: 0 };
+
+function takeDailySession() {
+  const today = new Date().toISOString().slice(0, 10);
+  if (quota.day !== today) {
+    quota.day = today;
+    quota.used = 0;
+  }
+  if (quota.used >= DAILY_SESSION_QUOTA) {
+    const midnight = new Date(`${today}T00:00:00Z`).getTime() + 24 * 60 * MINUTE_MS;
+    throw new HttpError(429, 'Lumina has reached its session limit for today. Please try again tomorrow.', Math.ceil((midnight - Date.now()) / 1000));
+  }
+  quota.used++;
+}
+
+const clientId = (req) => {
+  const forwarded = TRUST_PROXY ? String(req.headers['x-forwarded-for'] || '').split(',')[0].trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request body is too large.'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+/**
+ * Lets an allow-listed origin call the server when the app is built with
+ * TOKEN_SERVER_URL pointing elsewhere. Returns true if the request was a
+ * preflight and has been answered.
+ */
+function handleCors(req, res) {
+  const origin = req.headers.origin;
+  if (!origin || !ALLOWED_ORIGINS.includes(origin)) return false;
+
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Vary', 'Origin');
+  if (req.method !== 'OPTIONS') return false;
+
+  res.writeHead(204, {
+    'Access-Control-Allow-Methods': 'POST',
+    // The SDK adds its own x-goog-* headers; the origin is trusted, so echo what it asks for.
+    'Access-Control-Allow-Headers': req.headers['access-control-request-headers'] || 'Content-Type',
+    'Access-Control-Max-Age': '600'
+  });
+  res.end();
+  return true;
+}
+
+const sendJson = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+async function issueLiveToken(req, res) {
+  let model;
+  try {
+    model = JSON.parse((await readBody(req)).toString() || '{}').model;
+  } catch {
+    throw new HttpError(400, 'Request body must be JSON.');
+  }
+  if (!LIVE_MODELS.includes(model)) throw new HttpError(400, 'Unsupported Live model.');
+
+  const wait = tokenLimiter(clientId(req));
+  if (wait) throw new HttpError(429, 'Too many sessions started. Please wait a moment and try again.', wait);
+  takeDailySession();
+
+  const now = Date.now();
+  const expiresAt = new Date(now + TOKEN_TTL_MS).toISOString();
+  const token = await ai.authTokens.create({
+    config: {
+      uses: 1,
+      expireTime: expiresAt,
+      newSessionExpireTime: new Date(now + NEW_SESSION_WINDOW_MS).toISOString(),
+      // The token only opens audio sessions on this model. The fields set here are
+      // locked; the instruction, voice and tools stay up to the client.
+      liveConnectConstraints: {
+        model,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          inputAudioTranscription: {},
+          outputAudioTranscription: {}
+        }
+      },
+      lockAdditionalFields: [],
+      httpOptions: { apiVersion: 'v1alpha' }
+    }
+  });
+  sendJson(res, 200, { token: token.name, expiresAt });
+}
+
+async function proxyGenAI(req, res, path) {
+  if (req.method !== 'POST' || !PROXIED_PATH.test(path)) throw new HttpError(404, 'Not found.');
+  const wait = proxyLimiter(clientId(req));
+  if (wait) throw new HttpError(429, 'Too many requests. Please slow down.', wait);
+
+  const body = await readBody(req);
+  const upstream = await fetch(`${UPSTREAM}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': req.headers['content-type'] || 'application/json',
+      'x-goog-api-key': apiKey
+    },
+    body
+  });
+  res.writeHead(upstream.status, {
+    'Content-Type': upstream.headers.get('content-type') || 'application/json',
+    'Cache-Control': 'no-store'
+  });
+  res.end(Buffer.from(await upstream.arrayBuffer()));
+}
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url || '/', 'http://localhost');
+  if (handleCors(req, res)) return;
+  try {
+    if (url.pathname === '/api/live-token' && req.method === 'POST') {
+      await issueLiveToken(req, res);
+    } else if (url.pathname.startsWith('/api/genai/')) {
+      await proxyGenAI(req, res, url.pathname.slice('/api/genai'.length));
+    } else {
+      throw new HttpError(404, 'Not found.');
+    }
+  } catch (e) {
+    const status = e instanceof HttpError ? e.status : 502;
+    if (status >= 500) console.error(`${req.method} ${url.pathname} failed`, e);
+    const headers = e.retryAfterSeconds ? { 'Retry-After': String(e.retryAfterSeconds) } : {};
+    if (!res.headersSent) sendJson(res, status, { error: e instanceof HttpError ? e.message : 'The Gemini API could not be reached.' }, headers);
+    else res.end();
+  }
+});
+
+server.listen(PORT, () => console.log(`Token server listening on http://localhost:${PORT}`));
@@ -0,0 +1,62 @@
+
+/**
+ * Service worker template. The build (see serviceWorkerPlugin in vite.config.ts)
+ * fills in the build id and the list of emitted files, so the whole app shell is
+ * available offline after the first visit.
+ */
+const CACHE_NAME = 'lumina-__BUILD_ID__';
+const PRECACHE_URLS = __PRECACHE_URLS__;
+/** The manifest's start_url and the file it serves. */
+const SHELL_PATHS = ['/', '/index.html'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then(cache => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key.startsWith('lumina-') && key !== CACHE_NAME).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  // Live sockets, the token server and anything cross-origin always go to the network.
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') {
+    // Network first so a deploy is picked up straight away; the cached shell when offline.
+    event.respondWith(
+      fetch(request)
+        .then(response => {
+          // Only a good copy of the start page may replace the offline shell; error
+          // pages and unknown deep links are passed through uncached.
+          if (response.ok && SHELL_PATHS.includes(url.pathname)) {
+            const copy = response.clone();
+            caches.open(CACHE_NAME).then(cache => cache.put('/index.html', copy));
+          }
+          return response;
+        })
+        .catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
+  // Built assets have content hashes in their names, so a cached copy never goes stale.
+  event.respondWith(
+    caches.match(request).then(cached => cached || fetch(request).then(response => {
+      if (response.ok) {
+        const copy = response.clone();
+        caches.open(CACHE_NAME).then(cache => cache.put(request, copy));
+      }
+      return response;
+    }))
+  );
+});
@@ -0,0 +1,71 @@
+
+import { describe, expect, it } from 'vitest';
+import { QuizQuestion } from '../types';
+import { gradeAnswer } from './answerGrading';
+
+const question = (...answers: string[]): QuizQuestion => ({ id: 'q', prompt: '', answers, explanation: '' });
+
+const eight = question('8', 'eight');
+const five = question('5', 'five', '5 m/s');
+const oneThird = question('1/3', 'one third', 'a third', '2/6', 'two sixths');
+const twoFifths = question('2/5', 'two fifths');
+const half = question('1/2', 'one half', 'a half', 'half');
+const distance = question('150', '150 km', 'one hundred and fifty');
+const force = question('2000', '2000 n', 'two thousand');
+const endothermic = question('endothermic');
+const weight = question('weight');
+const gas = question('oxygen', 'o2');
+
+describe('gradeAnswer', () => {
+  it.each([
+    ['Eight', eight],
+    ['I think it is 8.', eight],
+    ['a hundred and fifty kilometres', distance],
+    ['one hundred fifty', distance],
+    ['2,000 newtons', force],
+    ['two thousand', force],
+    ['two fifths', twoFifths],
+    ['two over five', twoFifths],
+    ['two out of five', twoFifths],
+    ['a half', half],
+    ['two point five', question('2.5')],
+    ['one and a half', question('1.5')],
+    ["It's endothermic", endothermic],
+    ['oxygen, I think', gas],
+    ['nitrogen, no, oxygen', gas],
+    ['weight, not mass', weight],
+    ['8, not 6', eight],
+    ['six, no, eight', eight],
+    ['The weight changes but the mass stays the same', weight],
+    ['Weight, because gravity is weaker on the Moon', weight],
+    ['Oxygen, which we breathe', gas],
+    ['100 divided by 20 is 5', five],
+    ['5, because 100 divided by 20', five],
+    ['Two out of six, so one third', oneThird],
+    ['The denominator of 5/8 is 8', eight]
+  ])('accepts %j', (answer, q) => {
+    expect(gradeAnswer(q, answer)).toBe(true);
+  });
+
+  it.each([
+    ['four or eight', eight],
+    ['8, or maybe 6', eight],
+    ['eighteen', eight],
+    ['eighty', eight],
+    ['fifty', distance],
+    ['4/10', twoFifths],
+    ['one and a half', half],
+    ['not endothermic', endothermic],
+    ["it isn't endothermic", endothermic],
+    ['neither the mass nor the weight', weight],
+    ['oxygen, no, nitrogen', gas],
+    ['oxygen no nitrogen', gas],
+    ['oxygen, actually I mean nitrogen', gas],
+    ['eight, no, six', eight],
+    ['eight, wait', eight],
+    ['carbon dioxide', gas],
+    ['', eight]
+  ])('rejects %j', (answer, q) => {
+    expect(gradeAnswer(q, answer)).toBe(false);
+  });
+});
@@ -0,0 +1,212 @@
+
+import { QuizQuestion } from '../types';
+
+/**
+ * Marks spoken quiz answers. Answers arrive as transcriptions, so numbers may be
+ * spelled out ("a hundred and fifty", "two fifths") and the student may hedge or
+ * correct themselves mid-sentence. Each answer is split into clauses, numbers are
+ * read into canonical tokens ("150", "2/5"), and only the student's last stated
+ * answer is marked.
+ */
+
+const SMALL_NUMBERS: Record<string, number> = {
+  zero: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+  ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+  seventeen: 17, eighteen: 18, nineteen: 19,
+  twenty: 20, thirty: 30, forty: 40, fifty: 50, sixty: 60, seventy: 70, eighty: 80, ninety: 90
+};
+
+const SCALES: Record<string, number> = { hundred: 100, thousand: 1000, million: 1e6 };
+
+const DENOMINATORS: Record<string, number> = {
+  half: 2, halves: 2, third: 3, thirds: 3, quarter: 4, quarters: 4, fourth: 4, fourths: 4,
+  fifth: 5, fifths: 5, sixth: 6, sixths: 6, seventh: 7, sevenths: 7, eighth: 8, eighths: 8,
+  ninth: 9, ninths: 9, tenth: 10, tenths: 10, twelfth: 12, twelfths: 12, hundredth: 100, hundredths: 100
+};
+
+const NEGATIONS = new Set(['not', 'no', 'neither', 'nor', 'never', 'isnt', 'arent', 'doesnt', 'dont', 'wasnt', 'cant']);
+
+/** Words that take back what came before them ("oxygen, no, nitrogen"). */
+const CORRECTIONS = [['no'], ['actually'], ['wait'], ['sorry'], ['i', 'mean']];
+
+/** Clauses that start with these explain an answer already given rather than state one. */
+const EXPLANATIONS = new Set(['because', 'since']);
+
+const DIGITS = /^\d+(\.\d+)?$/;
+const FRACTION = /^(\d+)\/(\d+)$/;
+
+const isNumberToken = (token: string) => DIGITS.test(token) || FRACTION.test(token);
+const isNumberWord = (word: string) => word in SMALL_NUMBERS || word in SCALES;
+const formatNumber = (value: number) => String(Math.round(value * 1e6) / 1e6);
+
+/** Reads the number starting at `words[i]`, if there is one. */
+function readNumber(words: string[], i: number): { value: number; next: number } | null {
+  const first = words[i];
+  let next = i;
+  let total = 0;
+  let current = 0;
+
+  if (DIGITS.test(first)) {
+    current = Number(first);
+    next++;
+  } else if (first === 'a' && (words[i + 1] in SCALES || words[i + 1] in DENOMINATORS)) {
+    // "a hundred", "a third"
+    current = 1;
+    next++;
+  } else if (!isNumberWord(first) || first in SCALES) {
+    return null;
+  }
+
+  while (next < words.length) {
+    const word = words[next];
+    if (word in SMALL_NUMBERS && (current % 100 === 0 || current % 10 === 0 && SMALL_NUMBERS[word] < 10)) {
+      current += SMALL_NUMBERS[word];
+    } else if (word in SCALES && SCALES[word] === 100) {
+      current = (current || 1) * 100;
+    } else if (word in SCALES) {
+      total += (current || 1) * SCALES[word];
+      current = 0;
+    } else if (word === 'and' && total + current >= 100 && words[next + 1] in SMALL_NUMBERS) {
+      // "one hundred and fifty"
+    } else if (word === 'point' && words[next + 1] in SMALL_NUMBERS) {
+      let decimals = '';
+      while (SMALL_NUMBERS[words[next + 1]] < 10) decimals += SMALL_NUMBERS[words[++next]];
+      current += Number(`0.${decimals}`);
+    } else {
+      break;
+    }
+    next++;
+  }
+  return { value: total + current, next };
+}
+
+/** Turns one clause into words, with every number collapsed into a single canonical token. */
+function tokenize(clause: string): string[] {
+  const words = clause.split(/[^a-z0-9/.]+/).filter(Boolean);
+  const tokens: string[] = [];
+
+  for (let i = 0; i < words.length;) {
+    if (FRACTION.test(words[i])) {
+      tokens.push(words[i]);
+      i++;
+      continue;
+    }
+    if (words[i] === 'half') {
+      tokens.push('1/2');
+      i++;
+      continue;
+    }
+
+    const number = readNumber(words, i);
+    if (!number) {
+      tokens.push(words[i]);
+      i++;
+      continue;
+    }
+
+    let { value, next } = number;
+    const whole = Number.isInteger(value);
+    const denominator = DENOMINATORS[words[next]];
+    const over = words[next] === 'over' ? 1 : words[next] === 'out' && words[next + 1] === 'of' ? 2 : 0;
+
+    if (whole && denominator) {
+      // "two fifths"
+      tokens.push(`${value}/${denominator}`);
+      next++;
+    } else if (whole && over && readNumber(words, next + over)) {
+      // "three over four", "three out of four"
+      const bottom = readNumber(words, next + over)!;
+      tokens.push(`${value}/${formatNumber(bottom.value)}`);
+      next = bottom.next;
+    } else if (whole && words[next] === 'and' && (words[next + 1] === 'a' || words[next + 1] in SMALL_NUMBERS)) {
+      // "one and a half" is a mixed number, never the fraction on its own.
+      const part = readNumber(words, next + 1);
+      const partDenominator = part && DENOMINATORS[words[part.next]];
+      if (part && partDenominator) {
+        value += part.value / partDenominator;
+        next = part.next + 1;
+      }
+      tokens.push(formatNumber(value));
+    } else {
+      tokens.push(formatNumber(value));
+    }
+    i = next;
+  }
+  return tokens;
+}
+
+/**
+ * Splits an answer into clauses at punctuation and "but", the points where
+ * students correct themselves, and before "because" and "since", where they
+ * start explaining.
+ */
+function toClauses(answer: string): string[][] {
+  return answer
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/(\d),(\d{3})/g, '$1$2')
+    .replace(/²/g, '2')
+    .split(/[,;:!?]|\.(?!\d)|\s-\s|\bbut\b|(?=\b(?:because|since)\b)/)
+    .map(tokenize)
+    .filter(tokens => tokens.length > 0);
+}
+
+const phraseAt = (tokens: string[], phrase: string[], i: number) =>
+  phrase.length > 0 && i + phrase.length <= tokens.length && phrase.every((word, j) => tokens[i + j] === word);
+
+/** Where each correction marker in `tokens` ends. */
+const correctionEnds = (tokens: string[]) =>
+  tokens.flatMap((_, i) => CORRECTIONS.filter(marker => phraseAt(tokens, marker, i)).map(marker => i + marker.length));
+
+const sameNumber = (a: string, b: string) =>
+  FRACTION.test(a) || FRACTION.test(b) ? a === b : Number(a) === Number(b);
+
+interface Candidate {
+  clause: number;
+  start: number;
+  end: number;
+  value: string;
+}
+
+/**
+ * Marks a transcribed answer against the question's accepted answers. The mark
+ * goes to the last answer the student states: the last number for numeric
+ * questions, the last accepted phrase otherwise. Anything said only to explain
+ * it ("weight, because gravity is weaker on the Moon", "100 divided by 20 is 5")
+ * does not change the answer. It is wrong when:
+ * - the answer hedges between options ("4 or 6");
+ * - the stated answer is negated ("not endothermic", "neither the mass nor the weight");
+ * - a correction follows it ("oxygen, no, nitrogen", "8, actually").
+ * A negated answer does not count as stated, so "weight, not mass" and
+ * "8, not 6" are marked on the answer before it. Numbers compare by value, but
+ * fractions must match as written, so "4/10" is not taken for "2/5" and
+ * "one and a half" is not taken for "a half".
+ */
+export function gradeAnswer(question: QuizQuestion, answer: string): boolean {
+  const clauses = toClauses(answer).filter((tokens, i) => i === 0 || !EXPLANATIONS.has(tokens[0]));
+  if (clauses.flat().includes('or')) return false;
+
+  const accepted = question.answers.map(a => toClauses(a).flat());
+  const acceptedNumbers = accepted.map(tokens => tokens.find(isNumberToken)).filter((n): n is string => !!n);
+  const acceptedPhrases = accepted.filter(tokens => !tokens.some(isNumberToken));
+  const numeric = acceptedNumbers.length > 0;
+
+  const candidates: Candidate[] = clauses.flatMap((tokens, clause) => tokens.flatMap((value, start) => {
+    if (numeric) return isNumberToken(value) ? [{ clause, start, end: start + 1, value }] : [];
+    return acceptedPhrases
+      .filter(phrase => phraseAt(tokens, phrase, start))
+      .map(phrase => ({ clause, start, end: start + phrase.length, value }));
+  }));
+
+  for (let c = candidates.length - 1; c >= 0; c--) {
+    const { clause, start, end, value } = candidates[c];
+    const tokens = clauses[clause];
+    const from = Math.max(0, ...correctionEnds(tokens).filter(i => i <= start));
+    if (tokens.slice(from, start).some(word => NEGATIONS.has(word))) continue;
+
+    const after = [tokens.slice(end), ...clauses.slice(clause + 1)];
+    if (after.some(rest => correctionEnds(rest).length > 0)) return false;
+    return numeric ? acceptedNumbers.some(n => sameNumber(n, value)) : true;
+  }
+  return false;
+}
@@ -0,0 +1,173 @@
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+/** 40 ms of 16 kHz audio per realtime chunk. */
+export const CAPTURE_CHUNK_SAMPLES = 640;
+
+const PROCESSOR_NAME = 'lumina-capture';
+
+/**
+ * Runs on the audio rendering thread. Resamples whatever rate the context
+ * actually runs at down (or up) to `targetRate` with a Blackman-windowed sinc
+ * filter, converts to 16-bit PCM and posts fixed-size chunks to the main thread.
+ */
+const PROCESSOR_SOURCE = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, chunkSize } = options.processorOptions;
+    this.ratio = sampleRate / targetRate;
+    this.cutoff = Math.min(1, 1 / this.ratio);
+    this.halfTaps = this.ratio === 1 ? 0 : Math.ceil(8 / this.cutoff);
+    this.buffer = new Float32Array(4096);
+    this.length = this.halfTaps;
+    this.position = this.halfTaps;
+    this.chunk = new Int16Array(chunkSize);
+    this.filled = 0;
+  }
+
+  push(sample) {
+    const s = Math.max(-1, Math.min(1, sample));
+    this.chunk[this.filled++] = s * 0x7FFF;
+    if (this.filled === this.chunk.length) {
+      this.port.postMessage(this.chunk.buffer, [this.chunk.buffer]);
+      this.chunk = new Int16Array(this.chunk.length);
+      this.filled = 0;
+    }
+  }
+
+  kernel(x) {
+    if (x === 0) return this.cutoff;
+    const t = Math.PI * this.cutoff * x;
+    const w = 0.42 + 0.5 * Math.cos(Math.PI * x / this.halfTaps) + 0.08 * Math.cos(2 * Math.PI * x / this.halfTaps);
+    return this.cutoff * (Math.sin(t) / t) * w;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    if (this.halfTaps === 0) {
+      for (let i = 0; i < channel.length; i++) this.push(channel[i]);
+      return true;
+    }
+
+    if (this.length + channel.length > this.buffer.length) {
+      const grown = new Float32Array((this.length + channel.length) * 2);
+      grown.set(this.buffer.subarray(0, this.length));
+      this.buffer = grown;
+    }
+    this.buffer.set(channel, this.length);
+    this.length += channel.length;
+
+    while (Math.floor(this.position) + this.halfTaps < this.length) {
+      const base = Math.floor(this.position);
+      const frac = this.position - base;
+      let sum = 0;
+      let weight = 0;
+      for (let k = -this.halfTaps + 1; k <= this.halfTaps; k++) {
+        const h = this.kernel(k - frac);
+        sum += this.buffer[base + k] * h;
+        weight += h;
+      }
+      this.push(weight ? sum / weight : 0);
+      this.position += this.ratio;
+    }
+
+    const consumed = Math.floor(this.position) - this.halfTaps + 1;
+    if (consumed > 0) {
+      this.buffer.copyWithin(0, consumed, this.length);
+      this.length -= consumed;
+      this.position -= consumed;
+    }
+    return true;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', CaptureProcessor);
+`;
+
+export interface AudioCapture {
+  context: AudioContext;
+  source: MediaStreamAudioSourceNode;
+  node: AudioWorkletNode;
+  /** Taps the raw mic signal so the UI can show the user's input level. */
+  analyser: AnalyserNode;
+  /** The rate the browser actually gave us, which may differ from CAPTURE_SAMPLE_RATE. */
+  deviceSampleRate: number;
+  stop: () => void;
+}
+
+/**
+ * Asks for a 16 kHz context so most browsers resample natively, but never trusts
+ * that it was honored: Safari and some Android builds silently keep the device
+ * rate, and Firefox refuses to connect a stream whose rate differs from the
+ * context. In both cases we fall back to the device rate and let the worklet
+ * resample.
+ */
+function createCaptureGraph(stream: MediaStream): { context: AudioContext; source: MediaStreamAudioSourceNode } {
+  const AudioContextCtor: typeof AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+  const context = new AudioContextCtor({ sampleRate: CAPTURE_SAMPLE_RATE });
+  try {
+    return { context, source: context.createMediaStreamSource(stream) };
+  } catch (e) {
+    console.warn(`Input device cannot run at ${CAPTURE_SAMPLE_RATE} Hz, falling back to its native rate`, e);
+    context.close().catch(() => {});
+    const fallback = new AudioContextCtor();
+    return { context: fallback, source: fallback.createMediaStreamSource(stream) };
+  }
+}
+
+export async function startAudioCapture(
+  stream: MediaStream,
+  onChunk: (pcm: Int16Array) => void,
+): Promise<AudioCapture> {
+  const { context, source } = createCaptureGraph(stream);
+  try {
+    if (context.state === 'suspended') await context.resume();
+
+    if (context.sampleRate !== CAPTURE_SAMPLE_RATE) {
+      console.warn(`Input context runs at ${context.sampleRate} Hz; resampling to ${CAPTURE_SAMPLE_RATE} Hz`);
+    }
+
+    const moduleUrl = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+    try {
+      await context.audioWorklet.addModule(moduleUrl);
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+
+    const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+      numberOfInputs: 1,
+      numberOfOutputs: 1,
+      outputChannelCount: [1],
+      processorOptions: { targetRate: CAPTURE_SAMPLE_RATE, chunkSize: CAPTURE_CHUNK_SAMPLES }
+    });
+    node.port.onmessage = (e: MessageEvent<ArrayBuffer>) => onChunk(new Int16Array(e.data));
+
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 256;
+
+    source.connect(analyser);
+    source.connect(node);
+    // The processor writes silence; the connection just keeps it scheduled in every browser.
+    node.connect(context.destination);
+
+    return {
+      context,
+      source,
+      node,
+      analyser,
+      deviceSampleRate: context.sampleRate,
+      stop: () => {
+        node.port.onmessage = null;
+        source.disconnect();
+        analyser.disconnect();
+        node.disconnect();
+        context.close().catch(() => {});
+      }
+    };
+  } catch (e) {
+    context.close().catch(() => {});
+    throw e;
+  }
+}
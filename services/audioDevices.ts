@@ -0,0 +1,31 @@
+
+import { Settings } from '../types';
+
+export async function listAudioInputs(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audioinput');
+}
+
+/**
+ * Opens the configured microphone. A saved device that has since been unplugged
+ * falls back to the default input instead of failing the session.
+ */
+export async function openMicrophone(settings: Settings): Promise<MediaStream> {
+  const processing = {
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl
+  };
+
+  if (settings.inputDeviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        audio: { ...processing, deviceId: { exact: settings.inputDeviceId } }
+      });
+    } catch (e: any) {
+      if (e?.name !== 'OverconstrainedError' && e?.name !== 'NotFoundError') throw e;
+      console.warn('Saved microphone is unavailable, using the default input', e);
+    }
+  }
+  return navigator.mediaDevices.getUserMedia({ audio: processing });
+}
@@ -37,6 +37,13 @@ export async function decodeAudioData(
   return buffer;
 }
 
+/** RMS level of a 16-bit PCM chunk, from 0 (silence) to 1 (full scale). */
+export function pcmLevel(pcm: Int16Array): number {
+  let sum = 0;
+  for (let i = 0; i < pcm.length; i++) sum += pcm[i] * pcm[i];
+  return pcm.length ? Math.sqrt(sum / pcm.length) / 32768 : 0;
+}
+
 export function float32ToInt16(float32Array: Float32Array): Int16Array {
   const l = float32Array.length;
   const int16Array = new Int16Array(l);
@@ -45,3 +52,33 @@ export function float32ToInt16(float32Array: Float32Array): Int16Array {
   }
   return int16Array;
 }
+
+export function encodeWAV(samples: Int16Array, sampleRate: number, numChannels: number = 1): Blob {
+  const bytesPerSample = 2;
+  const dataSize = samples.length * bytesPerSample;
+  const buffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(buffer);
+
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * bytesPerSample, true);
+  view.setUint16(32, numChannels * bytesPerSample, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  new Int16Array(buffer, 44).set(samples);
+  return new Blob([buffer], { type: 'audio/wav' });
+}
@@ -0,0 +1,115 @@
+
+import { ChildProcess, spawn } from 'child_process';
+import { LiveServerMessage, Modality } from '@google/genai';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ConversationBackend, createConversationBackend } from './conversationBackend';
+import { ConnectionStatus } from './liveConnection';
+
+const PORT = 20000 + Math.floor(Math.random() * 20000);
+
+let server: ChildProcess;
+let backend: ConversationBackend | null = null;
+
+/** Starts the mock Live server on its own port and resolves once it is listening. */
+beforeAll(() => new Promise<void>((resolve, reject) => {
+  server = spawn(process.execPath, ['server/mockLiveServer.mjs'], { env: { ...process.env, MOCK_PORT: String(PORT) } });
+  server.stdout!.on('data', chunk => {
+    if (String(chunk).includes('listening')) resolve();
+  });
+  server.on('exit', code => reject(new Error(`Mock server exited with code ${code}`)));
+  process.env.MOCK_SERVER_URL = `http://localhost:${PORT}`;
+}));
+
+afterAll(() => {
+  if (server.pid) process.kill(server.pid);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  backend?.close();
+  backend = null;
+});
+
+/** Connects to the mock, recording every status change and server message. */
+async function connectMock() {
+  const statuses: ConnectionStatus[] = [];
+  const messages: LiveServerMessage[] = [];
+  const reconnects: boolean[] = [];
+  backend = createConversationBackend('mock');
+  await backend.connect({
+    model: 'mock-model',
+    buildConfig: () => ({ responseModalities: [Modality.AUDIO], outputAudioTranscription: {} }),
+    onMessage: message => messages.push(message),
+    onStatusChange: status => statuses.push(status),
+    onReconnected: resumed => reconnects.push(resumed)
+  });
+  return { backend, statuses, messages, reconnects };
+}
+
+const loudChunk = () => new Int16Array(640).fill(8000);
+
+describe('mock conversation backend', () => {
+  it('opens and closes a session', async () => {
+    const { backend, statuses } = await connectMock();
+
+    expect(backend.kind).toBe('mock');
+    expect(backend.isOpen).toBe(true);
+
+    backend.close();
+    expect(backend.isOpen).toBe(false);
+    expect(statuses).toEqual(['open', 'closed']);
+  });
+
+  it('does not report a call that never connected as ended', async () => {
+    vi.stubEnv('MOCK_SERVER_URL', `http://localhost:${PORT + 1}`);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const statuses: ConnectionStatus[] = [];
+    const failing = createConversationBackend('mock');
+    await expect(failing.connect({
+      model: 'mock-model',
+      buildConfig: () => ({ responseModalities: [Modality.AUDIO] }),
+      onMessage: () => {},
+      onStatusChange: status => statuses.push(status)
+    })).rejects.toThrow();
+
+    failing.close();
+    expect(statuses).toEqual([]);
+  });
+
+  it('interrupts a long reply when the user starts speaking', async () => {
+    const { backend, messages } = await connectMock();
+
+    backend.sendText('/long');
+    await vi.waitFor(() => expect(messages.some(m => m.serverContent?.outputTranscription)).toBe(true));
+    backend.sendAudio(loudChunk());
+
+    await vi.waitFor(() => expect(messages.some(m => m.serverContent?.interrupted)).toBe(true));
+    expect(messages.some(m => m.serverContent?.turnComplete)).toBe(false);
+  });
+
+  it('reconnects and resumes the session after a dropped socket', async () => {
+    const { backend, statuses, messages, reconnects } = await connectMock();
+
+    backend.sendText('Hello');
+    await vi.waitFor(() => expect(messages.some(m => m.sessionResumptionUpdate?.newHandle)).toBe(true), { timeout: 3000 });
+
+    backend.sendText('/drop');
+    await vi.waitFor(() => expect(reconnects).toEqual([true]), { timeout: 5000 });
+
+    expect(statuses).toEqual(['open', 'reconnecting', 'open']);
+    expect(backend.reconnectCount).toBe(1);
+    expect(backend.isOpen).toBe(true);
+  });
+
+  it('fails without retrying when the server rejects the session', async () => {
+    const { backend, statuses } = await connectMock();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    backend.sendText('/error');
+    await vi.waitFor(() => expect(backend.status).toBe('failed'));
+
+    expect(statuses).toEqual(['open', 'failed']);
+    expect(backend.isOpen).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+
+import { Content, FunctionResponse, GoogleGenAI, LiveConnectConfig, LiveServerMessage } from '@google/genai';
+import { ConnectionStatus } from './liveConnection';
+import { createGeminiLiveBackend } from './geminiLiveBackend';
+import { createLiveGenAI } from './genaiClient';
+
+export type ActivitySignal = 'start' | 'end' | 'streamEnd';
+
+export interface ConversationEvents {
+  onMessage: (message: LiveServerMessage) => void;
+  onStatusChange: (status: ConnectionStatus) => void;
+  onError?: (error: ErrorEvent) => void;
+  /**
+   * Fired after a dropped connection comes back. When `resumed` is false the
+   * server has no memory of the call and the caller should replay context.
+   */
+  onReconnected?: (resumed: boolean) => void;
+}
+
+export interface ConnectOptions extends ConversationEvents {
+  model: string;
+  /** Re-read on every reconnect so the current mode and voice are used. */
+  buildConfig: () => LiveConnectConfig;
+}
+
+/**
+ * Everything App needs from a live voice conversation. Sends made while the
+ * backend is not open (connecting, reconnecting, closed) are dropped.
+ */
+export interface ConversationBackend {
+  readonly kind: BackendKind;
+  readonly status: ConnectionStatus;
+  readonly isOpen: boolean;
+  readonly reconnectCount: number;
+  /** Resolves once the first connection is open; rejects if it cannot be opened. */
+  connect: (options: ConnectOptions) => Promise<void>;
+  sendAudio: (pcm: Int16Array) => void;
+  /** A typed user turn. With `turnComplete` false it is added as context without asking for a reply. */
+  sendText: (text: string, turnComplete?: boolean) => void;
+  sendContext: (turns: Content[]) => void;
+  sendVideoFrame: (jpegBase64: string) => void;
+  sendActivity: (signal: ActivitySignal) => void;
+  sendToolResponses: (responses: FunctionResponse[]) => void;
+  close: () => void;
+}
+
+export type BackendKind = 'gemini' | 'mock';
+
+export const DEFAULT_MOCK_SERVER_URL = 'http://localhost:8787';
+
+/**
+ * Picks the backend from LUMINA_BACKEND. The mock speaks the same wire protocol
+ * as Gemini Live, so it reuses the Gemini client pointed at the local server
+ * started by `npm run mock`.
+ */
+export function createConversationBackend(
+  kind: BackendKind = process.env.LUMINA_BACKEND === 'mock' ? 'mock' : 'gemini'
+): ConversationBackend {
+  if (kind === 'mock') {
+    const mock = new GoogleGenAI({
+      apiKey: 'mock',
+      httpOptions: { baseUrl: process.env.MOCK_SERVER_URL || DEFAULT_MOCK_SERVER_URL }
+    });
+    return createGeminiLiveBackend(() => Promise.resolve(mock), 'mock');
+  }
+  return createGeminiLiveBackend(createLiveGenAI);
+}
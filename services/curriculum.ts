@@ -0,0 +1,20 @@
+
+import curriculum from '../data/curriculum.json';
+import { CurriculumTopic, LessonPlan, QuizQuestion, StudyLevel } from '../types';
+
+export const CURRICULUM = curriculum as CurriculumTopic[];
+
+export function buildLessonPlan(topicId: string, level: StudyLevel): LessonPlan | null {
+  const topic = CURRICULUM.find(t => t.id === topicId);
+  const steps = topic?.levels[level];
+  if (!topic || !steps?.length) return null;
+  return { topicId: topic.id, subject: topic.subject, title: topic.title, level, steps };
+}
+
+export function findQuestion(plan: LessonPlan, questionId: string): { stepIndex: number; question: QuizQuestion } | null {
+  for (let stepIndex = 0; stepIndex < plan.steps.length; stepIndex++) {
+    const question = plan.steps[stepIndex].questions.find(q => q.id === questionId);
+    if (question) return { stepIndex, question };
+  }
+  return null;
+}
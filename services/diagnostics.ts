@@ -0,0 +1,116 @@
+
+import { ConnectionStatus } from './liveConnection';
+import { PlaybackMetrics } from './playbackQueue';
+
+const MAX_EVENTS = 500;
+
+export type StreamKind = 'audio' | 'video';
+
+export interface DiagnosticsEvent {
+  at: number;
+  type: string;
+  detail?: string;
+}
+
+interface StreamCounters {
+  chunks: number;
+  bytes: number;
+  /** Produced while the connection wasn't open, so never sent. */
+  dropped: number;
+}
+
+/** Values owned by App (refs, the backend, the playback queue) that are read on every snapshot. */
+export interface DiagnosticsProbe {
+  status: ConnectionStatus;
+  reconnectCount: number;
+  inputSampleRate: number | null;
+  outputSampleRate: number | null;
+  playback: PlaybackMetrics | null;
+}
+
+export interface DiagnosticsSnapshot extends DiagnosticsProbe {
+  sessionId: string;
+  backend: string;
+  model: string;
+  startedAt: number;
+  capturedAt: number;
+  sent: Record<StreamKind, StreamCounters>;
+  received: { chunks: number; bytes: number };
+  errors: number;
+  events: DiagnosticsEvent[];
+}
+
+export interface SessionDiagnostics {
+  countSent: (kind: StreamKind, bytes: number) => void;
+  countDropped: (kind: StreamKind) => void;
+  countReceived: (bytes: number) => void;
+  log: (type: string, detail?: string) => void;
+  error: (type: string, error: unknown) => void;
+  snapshot: () => DiagnosticsSnapshot;
+}
+
+const describeError = (error: unknown) => {
+  if (error instanceof Error) return error.message;
+  if (error && typeof error === 'object' && 'message' in error) return String((error as { message: unknown }).message);
+  if (error instanceof Event) return `${error.type} event`;
+  return String(error);
+};
+
+/** Collects counters and a bounded event log for one call, for the overlay and for bug reports. */
+export function createSessionDiagnostics(
+  meta: { sessionId: string; backend: string; model: string },
+  probe: () => DiagnosticsProbe,
+): SessionDiagnostics {
+  const startedAt = Date.now();
+  const sent: Record<StreamKind, StreamCounters> = {
+    audio: { chunks: 0, bytes: 0, dropped: 0 },
+    video: { chunks: 0, bytes: 0, dropped: 0 }
+  };
+  const received = { chunks: 0, bytes: 0 };
+  const events: DiagnosticsEvent[] = [];
+  let errors = 0;
+
+  const log = (type: string, detail?: string) => {
+    events.push({ at: Date.now(), type, ...(detail ? { detail } : {}) });
+    if (events.length > MAX_EVENTS) events.splice(0, events.length - MAX_EVENTS);
+  };
+
+  return {
+    countSent: (kind, bytes) => {
+      sent[kind].chunks++;
+      sent[kind].bytes += bytes;
+    },
+    countDropped: kind => {
+      sent[kind].dropped++;
+    },
+    countReceived: bytes => {
+      received.chunks++;
+      received.bytes += bytes;
+    },
+    log,
+    error: (type, error) => {
+      errors++;
+      log(type, describeError(error));
+    },
+    snapshot: () => ({
+      ...meta,
+      ...probe(),
+      startedAt,
+      capturedAt: Date.now(),
+      sent: { audio: { ...sent.audio }, video: { ...sent.video } },
+      received: { ...received },
+      errors,
+      events: events.slice()
+    })
+  };
+}
+
+export function downloadDiagnostics(snapshot: DiagnosticsSnapshot): void {
+  const blob = new Blob([JSON.stringify(snapshot, null, 2)], { type: 'application/json;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `lumina-diagnostics-${new Date(snapshot.startedAt).toISOString().slice(0, 16).replace(/[:T]/g, '-')}.json`;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
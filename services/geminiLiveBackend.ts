@@ -0,0 +1,73 @@
+
+import { GoogleGenAI } from '@google/genai';
+import { encode } from './audioUtils';
+import { CAPTURE_SAMPLE_RATE } from './audioCapture';
+import { createLiveConnection, LiveConnection } from './liveConnection';
+import type { BackendKind, ConversationBackend } from './conversationBackend';
+
+/** ConversationBackend over the Gemini Live API, with reconnects handled by createLiveConnection. */
+export function createGeminiLiveBackend(
+  getClient: (model: string) => Promise<GoogleGenAI>,
+  kind: BackendKind = 'gemini',
+): ConversationBackend {
+  let connection: LiveConnection | null = null;
+
+  const session = () => connection?.session ?? null;
+
+  return {
+    kind,
+    get status() { return connection?.status ?? 'closed'; },
+    get isOpen() { return !!session(); },
+    get reconnectCount() { return connection?.reconnectCount ?? 0; },
+
+    connect: async ({ model, buildConfig, onMessage, onStatusChange, onError, onReconnected }) => {
+      connection?.close();
+      connection = createLiveConnection({
+        getClient,
+        model,
+        buildConfig,
+        onMessage,
+        onStatusChange,
+        onError,
+        onReconnected: (_session, resumed) => onReconnected?.(resumed)
+      });
+      await connection.open();
+    },
+
+    sendAudio: pcm => {
+      session()?.sendRealtimeInput({
+        media: { data: encode(new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength)), mimeType: `audio/pcm;rate=${CAPTURE_SAMPLE_RATE}` }
+      });
+    },
+
+    sendText: (text, turnComplete = true) => {
+      session()?.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete });
+    },
+
+    sendContext: turns => {
+      if (turns.length === 0) return;
+      session()?.sendClientContent({ turns, turnComplete: false });
+    },
+
+    sendVideoFrame: data => {
+      session()?.sendRealtimeInput({ video: { data, mimeType: 'image/jpeg' } });
+    },
+
+    sendActivity: signal => {
+      const s = session();
+      if (!s) return;
+      if (signal === 'start') s.sendRealtimeInput({ activityStart: {} });
+      else if (signal === 'end') s.sendRealtimeInput({ activityEnd: {} });
+      else s.sendRealtimeInput({ audioStreamEnd: true });
+    },
+
+    sendToolResponses: functionResponses => {
+      session()?.sendToolResponse({ functionResponses });
+    },
+
+    close: () => {
+      connection?.close();
+      connection = null;
+    }
+  };
+}
@@ -0,0 +1,30 @@
+import { GoogleGenAI } from '@google/genai';
+
+/**
+ * Where the token server lives. Empty means same origin, which the Vite dev
+ * proxy forwards; another origin must be listed in the server's ALLOWED_ORIGINS.
+ */
+const apiBase = () => process.env.TOKEN_SERVER_URL || window.location.origin;
+
+/**
+ * Client for one-off REST calls. The key never reaches the browser: requests go
+ * to the token server's /api/genai proxy, which attaches it.
+ */
+export function createGenAI(): GoogleGenAI {
+  return new GoogleGenAI({ apiKey: 'proxied', httpOptions: { baseUrl: `${apiBase()}/api/genai` } });
+}
+
+/** Fetches a single-use ephemeral token, locked to `model`, and returns a client for one Live connection. */
+export async function createLiveGenAI(model: string): Promise<GoogleGenAI> {
+  const response = await fetch(`${apiBase()}/api/live-token`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ model })
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok || !body.token) {
+    throw new Error(body.error || 'I couldn\'t reach the Lumina server to start a session.');
+  }
+  // Ephemeral tokens are only accepted by the v1alpha Live endpoint.
+  return new GoogleGenAI({ apiKey: body.token, httpOptions: { apiVersion: 'v1alpha' } });
+}
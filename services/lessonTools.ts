@@ -0,0 +1,121 @@
+
+import { Type } from '@google/genai';
+import { LessonPlan, LessonProgress } from '../types';
+import { LocalTool } from './toolRegistry';
+import { findQuestion } from './curriculum';
+import { gradeAnswer } from './answerGrading';
+import { updateLessonProgress } from './studyProgressStore';
+
+/** Transcript items from this tool mark where each lesson step begins. */
+export const LESSON_STEP_TOOL = 'lesson_step';
+export const GRADE_ANSWER_TOOL = 'grade_answer';
+
+const firstIncompleteStep = (plan: LessonPlan, progress: LessonProgress) => {
+  const index = plan.steps.findIndex(step => !progress.completedSteps.includes(step.id));
+  return index === -1 ? null : index;
+};
+
+/**
+ * The tools that drive a guided study session. Lumina fetches each step's
+ * material with `lesson_step` and hands every spoken quiz answer to
+ * `grade_answer`, so marking is done by the app against the curriculum rather
+ * than by the model. Progress is saved as it happens and reported through
+ * `onProgress` along with the step being taught.
+ */
+export function createLessonTools(
+  plan: LessonPlan,
+  onProgress: (progress: LessonProgress, stepIndex: number | null) => void
+): LocalTool[] {
+  const total = plan.steps.length;
+
+  const lessonStepTool: LocalTool = {
+    declaration: {
+      name: LESSON_STEP_TOOL,
+      description: 'Gets the material for a step of the current lesson: its key points and quiz questions. Without a step number it returns the first step the student has not finished yet, so call it at the start and after each step\'s questions are graded.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          step: { type: Type.INTEGER, description: `Optional step number from 1 to ${total}, to revisit or skip to a specific step.` }
+        }
+      }
+    },
+    run: ({ step }) => {
+      const requested = step === undefined || step === null ? null : Number(step) - 1;
+      if (requested !== null && !(requested >= 0 && requested < total)) {
+        throw new Error(`step must be between 1 and ${total}`);
+      }
+
+      // An unchanged update still stamps lastStudiedAt, so this lesson leads the progress history.
+      const progress = updateLessonProgress(plan.topicId, plan.level, p => p);
+      const stepIndex = requested ?? firstIncompleteStep(plan, progress);
+      onProgress(progress, stepIndex);
+      if (stepIndex === null) {
+        return { lessonComplete: true, score: { correct: progress.correct, attempts: progress.attempts } };
+      }
+
+      const current = plan.steps[stepIndex];
+      return {
+        step: stepIndex + 1,
+        totalSteps: total,
+        title: current.title,
+        keyPoints: current.points,
+        questions: current.questions.map(q => ({ id: q.id, question: q.prompt })),
+        alreadyCompleted: progress.completedSteps.includes(current.id)
+      };
+    },
+    describe: (_args, result) =>
+      result.lessonComplete
+        ? `Lesson complete: ${plan.title}`
+        : `Step ${result.step} of ${result.totalSteps}: ${result.title}`
+  };
+
+  const gradeAnswerTool: LocalTool = {
+    declaration: {
+      name: GRADE_ANSWER_TOOL,
+      description: 'Marks the student\'s answer to a lesson quiz question and records their score. Always use this instead of judging the answer yourself.',
+      parameters: {
+        type: Type.OBJECT,
+        properties: {
+          questionId: { type: Type.STRING, description: 'The id of the question, as returned by lesson_step.' },
+          answer: { type: Type.STRING, description: 'The student\'s final answer, in their own words as they said it.' }
+        },
+        required: ['questionId', 'answer']
+      }
+    },
+    run: ({ questionId, answer }) => {
+      const found = findQuestion(plan, String(questionId));
+      if (!found) throw new Error(`no question with id "${questionId}" in this lesson`);
+
+      const { question, stepIndex } = found;
+      const step = plan.steps[stepIndex];
+      const correct = gradeAnswer(question, String(answer));
+      const progress = updateLessonProgress(plan.topicId, plan.level, p => {
+        const answers = { ...p.answers, [question.id]: correct };
+        const stepDone = step.questions.every(q => q.id in answers);
+        return {
+          ...p,
+          answers,
+          attempts: p.attempts + 1,
+          correct: p.correct + (correct ? 1 : 0),
+          completedSteps: stepDone && !p.completedSteps.includes(step.id) ? [...p.completedSteps, step.id] : p.completedSteps
+        };
+      });
+      onProgress(progress, stepIndex);
+
+      return {
+        correct,
+        expectedAnswer: question.answers[0],
+        explanation: question.explanation,
+        stepComplete: progress.completedSteps.includes(step.id),
+        lessonComplete: firstIncompleteStep(plan, progress) === null,
+        score: { correct: progress.correct, attempts: progress.attempts }
+      };
+    },
+    describe: ({ answer }, result) =>
+      result.correct
+        ? `Quiz: "${answer}" is correct`
+        : `Quiz: "${answer}" is not quite right (expected ${result.expectedAnswer})`
+  };
+
+  return [lessonStepTool, gradeAnswerTool];
+}
@@ -0,0 +1,201 @@
+
+import { GoogleGenAI, LiveConnectConfig, LiveServerMessage, Session } from '@google/genai';
+
+export type ConnectionStatus = 'connecting' | 'open' | 'reconnecting' | 'closed' | 'failed';
+
+export interface LiveConnectionOptions {
+  /** Called before every connect, so each attempt can use a fresh short-lived token. */
+  getClient: (model: string) => Promise<GoogleGenAI>;
+  model: string;
+  /** Called on every (re)connect so the latest mode, voice, etc. are applied. */
+  buildConfig: () => LiveConnectConfig;
+  onMessage: (message: LiveServerMessage) => void;
+  onStatusChange: (status: ConnectionStatus) => void;
+  /** Socket-level errors. The close that usually follows drives reconnection. */
+  onError?: (error: ErrorEvent) => void;
+  /**
+   * Called after a dropped connection is re-established. `resumed` is true when
+   * the server restored the previous session from its resumption handle; when it
+   * is false the new session starts without context and the caller should replay it.
+   */
+  onReconnected?: (session: Session, resumed: boolean) => void;
+  maxRetries?: number;
+}
+
+export interface LiveConnection {
+  /** The currently open session, or null while connecting or reconnecting. */
+  readonly session: Session | null;
+  readonly status: ConnectionStatus;
+  readonly reconnectCount: number;
+  /** Resolves once the first connection is open; rejects if it cannot be opened. */
+  open: () => Promise<Session>;
+  /** User-initiated close. Never triggers a reconnect. */
+  close: () => void;
+}
+
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 8000;
+/** How long an attempt may take to open before it counts as failed. */
+const CONNECT_TIMEOUT_MS = 15000;
+/** How long a session must stay open before the retry backoff resets. */
+const STABLE_SESSION_MS = 5000;
+/** Invalid payload and policy violation: the server rejected the request itself. */
+const FATAL_CLOSE_CODES = [1007, 1008];
+
+/**
+ * Wraps `ai.live.connect` so a dropped socket is distinguished from the user
+ * hanging up. Drops are retried with exponential backoff and resumed through the
+ * Live API's session resumption handles when the server has issued one.
+ */
+export function createLiveConnection(options: LiveConnectionOptions): LiveConnection {
+  const maxRetries = options.maxRetries ?? 6;
+
+  let session: Session | null = null;
+  let status: ConnectionStatus = 'connecting';
+  let resumptionHandle: string | undefined;
+  let closedByUser = false;
+  let attempt = 0;
+  let reconnectCount = 0;
+  let everOpened = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const setStatus = (next: ConnectionStatus) => {
+    if (status === next) return;
+    status = next;
+    options.onStatusChange(next);
+  };
+
+  const connect = (): Promise<Session> => new Promise<Session>((resolve, reject) => {
+    const config = options.buildConfig();
+    const resuming = !!resumptionHandle;
+    let opened: Session | null = null;
+    let settled = false;
+    let heardFromServer = false;
+    let stableTimer: ReturnType<typeof setTimeout> | null = null;
+
+    // `ai.live.connect` only settles once the socket opens, so a socket that fails
+    // first (or never answers) has to end the attempt from here.
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timeout);
+      reject(error);
+    };
+    const timeout = setTimeout(() => fail(new Error('The Live connection timed out.')), CONNECT_TIMEOUT_MS);
+
+    options.getClient(options.model).then(ai => ai.live.connect({
+      model: options.model,
+      config: { ...config, sessionResumption: { handle: resumptionHandle } },
+      callbacks: {
+        onmessage: (message: LiveServerMessage) => {
+          if (opened && !message.setupComplete) heardFromServer = true;
+          const update = message.sessionResumptionUpdate;
+          if (update?.resumable && update.newHandle) {
+            resumptionHandle = update.newHandle;
+          }
+          options.onMessage(message);
+        },
+        onerror: (e) => {
+          console.error('Live connection error', e);
+          options.onError?.(e);
+          if (!opened) fail(new Error('The Live connection failed before it was ready.'));
+        },
+        onclose: (e: CloseEvent) => {
+          if (!opened) {
+            fail(new Error('The Live connection closed before it was ready.'));
+            return;
+          }
+          // Ignore closes from sockets we have already replaced or closed ourselves.
+          if (opened !== session) return;
+          session = null;
+          if (stableTimer) {
+            clearTimeout(stableTimer);
+            stableTimer = null;
+          }
+          if (!heardFromServer) {
+            // Closed straight after setup: most likely the server refused the
+            // resumption handle, so the next attempt starts a fresh session.
+            resumptionHandle = undefined;
+          }
+          if (closedByUser) {
+            setStatus('closed');
+          } else if (FATAL_CLOSE_CODES.includes(e.code) && !(resuming && !heardFromServer)) {
+            // Rejected config or credentials; retrying would fail the same way.
+            // A refused resume is still retried, as a fresh session.
+            console.error(`Live connection refused (${e.code}): ${e.reason}`);
+            setStatus('failed');
+          } else {
+            scheduleReconnect();
+          }
+        }
+      }
+    })).then(s => {
+      opened = s;
+      if (settled || closedByUser) {
+        // Timed out already, or the user hung up while it was connecting.
+        s.close();
+        if (!settled) {
+          settled = true;
+          clearTimeout(timeout);
+          resolve(s);
+        }
+        return;
+      }
+      settled = true;
+      clearTimeout(timeout);
+      session = s;
+      // Backoff only resets once the session has proven it stays up.
+      stableTimer = setTimeout(() => {
+        stableTimer = null;
+        attempt = 0;
+      }, STABLE_SESSION_MS);
+      everOpened = true;
+      setStatus('open');
+      if (reconnectCount > 0) options.onReconnected?.(s, resuming);
+      resolve(s);
+    }, e => fail(e instanceof Error ? e : new Error(String(e))));
+  });
+
+  const scheduleReconnect = () => {
+    if (closedByUser || retryTimer) return;
+    if (attempt >= maxRetries) {
+      setStatus('failed');
+      return;
+    }
+    setStatus('reconnecting');
+    const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+    attempt++;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      if (closedByUser) return;
+      reconnectCount++;
+      connect().catch(e => {
+        console.warn('Reconnect attempt failed', e);
+        // A handle the server no longer accepts should not block a fresh session.
+        resumptionHandle = undefined;
+        scheduleReconnect();
+      });
+    }, delay);
+  };
+
+  return {
+    get session() { return session; },
+    get status() { return status; },
+    get reconnectCount() { return reconnectCount; },
+    open: () => connect(),
+    close: () => {
+      closedByUser = true;
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+        retryTimer = null;
+      }
+      if (session) {
+        session.close();
+        session = null;
+      }
+      // Keep 'failed' so the UI can tell a lost connection from a hang-up, and
+      // don't report a call that never connected as ended.
+      if (status !== 'failed' && everOpened) setStatus('closed');
+    }
+  };
+}
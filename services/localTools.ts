@@ -0,0 +1,196 @@
+
+import { Type } from '@google/genai';
+import cropCalendar from '../data/cropCalendar.json';
+import { LocalTool } from './toolRegistry';
+import { addNote, loadNotes } from './notesStore';
+
+interface CropCalendarEntry {
+  crop: string;
+  region: string;
+  season: string;
+  plant: string[];
+  harvest: string[];
+  notes: string;
+}
+
+const CROP_CALENDAR = cropCalendar as CropCalendarEntry[];
+
+const CROP_ALIASES: Record<string, string> = { corn: 'maize', peanut: 'groundnut', peanuts: 'groundnut' };
+
+/** Spellings to try against the calendar: as given, singular ("tomatoes" → "tomato") and plural ("bean" → "beans"). */
+const cropKeys = (crop: string) => {
+  const key = crop.trim().toLowerCase();
+  return [CROP_ALIASES[key] || key, key.replace(/es$/, ''), key.replace(/s$/, ''), `${key}s`];
+};
+
+/** Factors to each dimension's base unit (metre, kilogram, square metre, litre). */
+const UNITS: Record<string, { dimension: string; factor: number }> = {
+  mm: { dimension: 'length', factor: 0.001 },
+  cm: { dimension: 'length', factor: 0.01 },
+  m: { dimension: 'length', factor: 1 },
+  km: { dimension: 'length', factor: 1000 },
+  in: { dimension: 'length', factor: 0.0254 },
+  ft: { dimension: 'length', factor: 0.3048 },
+  yd: { dimension: 'length', factor: 0.9144 },
+  mi: { dimension: 'length', factor: 1609.344 },
+  g: { dimension: 'mass', factor: 0.001 },
+  kg: { dimension: 'mass', factor: 1 },
+  t: { dimension: 'mass', factor: 1000 },
+  lb: { dimension: 'mass', factor: 0.45359237 },
+  oz: { dimension: 'mass', factor: 0.028349523125 },
+  m2: { dimension: 'area', factor: 1 },
+  ft2: { dimension: 'area', factor: 0.09290304 },
+  ha: { dimension: 'area', factor: 10000 },
+  acre: { dimension: 'area', factor: 4046.8564224 },
+  km2: { dimension: 'area', factor: 1e6 },
+  ml: { dimension: 'volume', factor: 0.001 },
+  l: { dimension: 'volume', factor: 1 },
+  m3: { dimension: 'volume', factor: 1000 },
+  gal: { dimension: 'volume', factor: 3.785411784 }
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  millimeter: 'mm', centimeter: 'cm', meter: 'm', metre: 'm', kilometer: 'km', kilometre: 'km',
+  inch: 'in', inches: 'in', foot: 'ft', feet: 'ft', yard: 'yd', mile: 'mi',
+  gram: 'g', kilogram: 'kg', kilo: 'kg', tonne: 't', ton: 't', pound: 'lb', lbs: 'lb', ounce: 'oz',
+  'square meter': 'm2', 'square metre': 'm2', sqm: 'm2', 'square foot': 'ft2', 'square feet': 'ft2', sqft: 'ft2',
+  hectare: 'ha', acres: 'acre', 'square kilometer': 'km2', 'square kilometre': 'km2',
+  milliliter: 'ml', millilitre: 'ml', liter: 'l', litre: 'l', 'cubic meter': 'm3', 'cubic metre': 'm3', gallon: 'gal',
+  celsius: 'c', fahrenheit: 'f', kelvin: 'k'
+};
+
+/**
+ * Indicative units of currency per US dollar. Bundled so the tool works offline;
+ * results always carry RATES_AS_OF so Lumina can say they are approximate.
+ */
+const USD_RATES: Record<string, number> = {
+  USD: 1, EUR: 0.92, GBP: 0.79, JPY: 150, CNY: 7.2, INR: 83.5,
+  KES: 129, TZS: 2600, UGX: 3750, RWF: 1330, ETB: 120,
+  NGN: 1500, GHS: 15.5, XOF: 605, XAF: 605, ZAR: 18.5, EGP: 48, MAD: 10
+};
+const RATES_AS_OF = '2026-01';
+
+const normalizeUnit = (unit: string) => {
+  const key = unit.trim().toLowerCase().replace(/[²]/g, '2').replace(/[³]/g, '3');
+  const singular = key.endsWith('s') && !UNITS[key] ? key.slice(0, -1) : key;
+  return UNIT_ALIASES[key] || UNIT_ALIASES[singular] || (UNITS[singular] ? singular : key);
+};
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+const convertTemperature = (value: number, from: string, to: string) => {
+  const celsius = from === 'c' ? value : from === 'f' ? (value - 32) * 5 / 9 : value - 273.15;
+  return to === 'c' ? celsius : to === 'f' ? celsius * 9 / 5 + 32 : celsius + 273.15;
+};
+
+const convertTool: LocalTool = {
+  declaration: {
+    name: 'convert',
+    description: 'Converts an amount between units (length, mass, area, volume, temperature) or between currencies using bundled indicative exchange rates. Use for any numeric conversion rather than estimating.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        amount: { type: Type.NUMBER, description: 'The amount to convert.' },
+        from: { type: Type.STRING, description: 'Source unit or ISO 4217 currency code, e.g. "acre", "kg", "USD".' },
+        to: { type: Type.STRING, description: 'Target unit or ISO 4217 currency code, e.g. "ha", "lb", "KES".' }
+      },
+      required: ['amount', 'from', 'to']
+    }
+  },
+  run: ({ amount, from, to }) => {
+    const value = Number(amount);
+    if (!Number.isFinite(value)) throw new Error('amount must be a number');
+
+    const fromCurrency = String(from).trim().toUpperCase();
+    const toCurrency = String(to).trim().toUpperCase();
+    if (USD_RATES[fromCurrency] && USD_RATES[toCurrency]) {
+      return {
+        result: round(value / USD_RATES[fromCurrency] * USD_RATES[toCurrency]),
+        from: fromCurrency,
+        to: toCurrency,
+        ratesAsOf: RATES_AS_OF,
+        note: 'Indicative offline rate; check a live source before transacting.'
+      };
+    }
+
+    const fromUnit = normalizeUnit(String(from));
+    const toUnit = normalizeUnit(String(to));
+    if (['c', 'f', 'k'].includes(fromUnit) && ['c', 'f', 'k'].includes(toUnit)) {
+      return { result: round(convertTemperature(value, fromUnit, toUnit)), from: fromUnit, to: toUnit };
+    }
+
+    const source = UNITS[fromUnit];
+    const target = UNITS[toUnit];
+    if (!source || !target) throw new Error(`cannot convert from "${from}" to "${to}"`);
+    if (source.dimension !== target.dimension) {
+      throw new Error(`"${from}" is a ${source.dimension} unit but "${to}" is a ${target.dimension} unit`);
+    }
+    return { result: round(value * source.factor / target.factor), from: fromUnit, to: toUnit };
+  },
+  describe: ({ amount, from, to }, result) => `Converted ${amount} ${from} → ${result.result} ${to}`
+};
+
+const cropCalendarTool: LocalTool = {
+  declaration: {
+    name: 'crop_calendar',
+    description: 'Looks up planting and harvest months for a crop from Lumina\'s bundled crop calendar. Regions: east-africa, west-africa, southern-africa, south-asia.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        crop: { type: Type.STRING, description: 'Crop name, e.g. "maize", "beans", "cassava".' },
+        region: { type: Type.STRING, description: 'Optional region to narrow the results.' }
+      },
+      required: ['crop']
+    }
+  },
+  run: ({ crop, region }) => {
+    const keys = cropKeys(String(crop));
+    const regionKey = region ? String(region).trim().toLowerCase().replace(/\s+/g, '-') : null;
+    const matches = CROP_CALENDAR.filter(e => keys.includes(e.crop) && (!regionKey || e.region === regionKey));
+    if (matches.length === 0) {
+      return {
+        found: false,
+        availableCrops: [...new Set(CROP_CALENDAR.map(e => e.crop))],
+        availableRegions: [...new Set(CROP_CALENDAR.map(e => e.region))]
+      };
+    }
+    return { found: true, entries: matches };
+  },
+  describe: ({ crop, region }, result) =>
+    result.found
+      ? `Looked up the planting calendar for ${crop}${region ? ` in ${region}` : ''}`
+      : `No planting calendar entry for ${crop}${region ? ` in ${region}` : ''}`
+};
+
+const saveNoteTool: LocalTool = {
+  declaration: {
+    name: 'save_note',
+    description: 'Saves a note or a to-do task on the user\'s device. Only use when the user asks you to remember, note down or remind them of something.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        kind: { type: Type.STRING, enum: ['note', 'task'], description: 'Whether this is a plain note or an actionable task.' },
+        text: { type: Type.STRING, description: 'The content to save, written so it makes sense on its own later.' },
+        due: { type: Type.STRING, description: 'Optional due date or time for tasks, as the user said it.' }
+      },
+      required: ['kind', 'text']
+    }
+  },
+  run: ({ kind, text, due }) => {
+    const note = addNote({ kind: kind === 'task' ? 'task' : 'note', text: String(text), ...(due ? { due: String(due) } : {}) });
+    return { saved: true, id: note.id };
+  },
+  describe: ({ kind, text }) => `Saved ${kind === 'task' ? 'a task' : 'a note'}: "${text}"`
+};
+
+const listNotesTool: LocalTool = {
+  declaration: {
+    name: 'list_notes',
+    description: 'Lists the notes and tasks previously saved on the user\'s device, newest first.',
+    parameters: { type: Type.OBJECT, properties: {} }
+  },
+  run: () => ({ notes: loadNotes().slice(-20).reverse() }),
+  describe: (_args, result) => `Read ${(result.notes as unknown[]).length} saved notes`
+};
+
+export const LOCAL_TOOLS: LocalTool[] = [convertTool, cropCalendarTool, saveNoteTool, listNotesTool];
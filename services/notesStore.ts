@@ -0,0 +1,24 @@
+
+import { SavedNote } from '../types';
+
+const NOTES_KEY = 'lumina.notes';
+
+export function loadNotes(): SavedNote[] {
+  try {
+    const raw = localStorage.getItem(NOTES_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.warn('Ignoring unreadable notes', e);
+    return [];
+  }
+}
+
+export function addNote(note: Omit<SavedNote, 'id' | 'createdAt'>): SavedNote {
+  const saved: SavedNote = {
+    ...note,
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: Date.now()
+  };
+  localStorage.setItem(NOTES_KEY, JSON.stringify([...loadNotes(), saved]));
+  return saved;
+}
@@ -0,0 +1,239 @@
+
+export const OUTPUT_SAMPLE_RATE = 24000;
+
+/** Fade applied on barge-in so the cut doesn't click. */
+const FADE_OUT_SECONDS = 0.08;
+/** Gaps shorter than this between chunks don't flip the speaking state off. */
+const SPEAKING_HANGOVER_MS = 250;
+
+export interface PlaybackMetrics {
+  /** Time from the user's last input to the first audio of the latest model turn. */
+  lastLatencyMs: number | null;
+  averageLatencyMs: number | null;
+  /** Smoothed deviation between chunk arrival spacing and chunk duration (RFC 3550 style). */
+  jitterMs: number;
+  /** Chunks that arrived after playback had already run dry mid-turn, i.e. audible gaps. */
+  underruns: number;
+  /** Audio scheduled but not yet played. */
+  bufferedMs: number;
+  chunksPlayed: number;
+}
+
+export interface InterruptResult {
+  heardSeconds: number;
+  receivedSeconds: number;
+  /** How many characters of the turn's output transcription were (approximately) heard. */
+  heardChars: number;
+}
+
+export interface PlaybackQueue {
+  /** Schedules a chunk of model audio and returns the wall-clock time it starts playing. */
+  enqueue: (pcm: Int16Array) => number;
+  /** Records output transcription as it arrives, to map played time back to text. */
+  noteTranscript: (text: string) => void;
+  /** Marks the moment the user last gave input, for the response latency metric. */
+  noteUserInput: (at?: number) => void;
+  /** The current turn has been fully received; the next chunk starts a new turn. */
+  endTurn: () => void;
+  /** Fades out and drops everything queued. Returns null if nothing was playing. */
+  interrupt: () => InterruptResult | null;
+  metrics: () => PlaybackMetrics;
+  close: () => void;
+}
+
+interface ScheduledChunk {
+  source: AudioBufferSourceNode;
+  startAt: number;
+  duration: number;
+}
+
+interface TurnState {
+  chunks: ScheduledChunk[];
+  receivedSeconds: number;
+  /** [seconds of audio received, characters of transcript received] at each transcript fragment. */
+  marks: [number, number][];
+  chars: number;
+  lastArrival: number | null;
+}
+
+const newTurn = (): TurnState => ({ chunks: [], receivedSeconds: 0, marks: [], chars: 0, lastArrival: null });
+
+/**
+ * Gapless scheduler for the model's streamed PCM. Each turn plays through its
+ * own gain node so a barge-in can fade just that turn, and keeps enough timing
+ * to say how much of it the user actually heard.
+ */
+export function createPlaybackQueue(
+  ctx: AudioContext,
+  destination: AudioNode,
+  onSpeakingChange: (speaking: boolean) => void,
+): PlaybackQueue {
+  let gain = ctx.createGain();
+  gain.connect(destination);
+
+  let turn: TurnState | null = null;
+  let turnEnded = false;
+  let nextStartAt = 0;
+  let speaking = false;
+  let idleTimer: ReturnType<typeof setTimeout> | null = null;
+
+  let lastUserInputAt: number | null = null;
+  let lastLatencyMs: number | null = null;
+  let latencyTotal = 0;
+  let latencyCount = 0;
+  let jitter = 0;
+  let underruns = 0;
+  let chunksPlayed = 0;
+
+  const setSpeaking = (next: boolean) => {
+    if (speaking === next) return;
+    speaking = next;
+    onSpeakingChange(next);
+  };
+
+  const clearIdleTimer = () => {
+    if (idleTimer) clearTimeout(idleTimer);
+    idleTimer = null;
+  };
+
+  // One timer for the end of the whole schedule, rather than per-source onended,
+  // so the state doesn't bounce between back-to-back chunks.
+  const scheduleIdle = () => {
+    clearIdleTimer();
+    const remainingMs = Math.max(0, nextStartAt - ctx.currentTime) * 1000;
+    idleTimer = setTimeout(() => {
+      idleTimer = null;
+      if (ctx.currentTime >= nextStartAt) setSpeaking(false);
+      else scheduleIdle();
+    }, remainingMs + SPEAKING_HANGOVER_MS);
+  };
+
+  const heardSeconds = (t: TurnState, now: number) =>
+    t.chunks.reduce((sum, c) => sum + Math.min(c.duration, Math.max(0, now - c.startAt)), 0);
+
+  /** Linear interpolation between the transcript marks around `seconds`. */
+  const charsAt = (t: TurnState, seconds: number) => {
+    if (seconds <= 0) return 0;
+    let previous: [number, number] = [0, 0];
+    for (const mark of t.marks) {
+      if (mark[0] >= seconds) {
+        const span = mark[0] - previous[0];
+        const ratio = span > 0 ? (seconds - previous[0]) / span : 1;
+        return Math.round(previous[1] + (mark[1] - previous[1]) * ratio);
+      }
+      previous = mark;
+    }
+    return previous[1];
+  };
+
+  return {
+    enqueue: (pcm) => {
+      const now = performance.now();
+      if (!turn || turnEnded) {
+        turn = newTurn();
+        turnEnded = false;
+      }
+      if (turn.chunks.length === 0 && lastUserInputAt !== null) {
+        lastLatencyMs = now - lastUserInputAt;
+        latencyTotal += lastLatencyMs;
+        latencyCount++;
+        // Only the first reply after each input counts; follow-up turns (e.g. after a tool call) aren't responses to speech.
+        lastUserInputAt = null;
+      }
+
+      const buffer = ctx.createBuffer(1, pcm.length, OUTPUT_SAMPLE_RATE);
+      const channel = buffer.getChannelData(0);
+      for (let i = 0; i < pcm.length; i++) channel[i] = pcm[i] / 32768;
+
+      if (turn.lastArrival !== null) {
+        const previous = turn.chunks[turn.chunks.length - 1];
+        const deviation = Math.abs((now - turn.lastArrival) - (previous ? previous.duration * 1000 : 0));
+        jitter += (deviation - jitter) / 16;
+        if (nextStartAt < ctx.currentTime) underruns++;
+      }
+      turn.lastArrival = now;
+
+      const startAt = Math.max(nextStartAt, ctx.currentTime);
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(gain);
+      source.start(startAt);
+      nextStartAt = startAt + buffer.duration;
+
+      turn.chunks.push({ source, startAt, duration: buffer.duration });
+      turn.receivedSeconds += buffer.duration;
+      chunksPlayed++;
+
+      setSpeaking(true);
+      scheduleIdle();
+      return Date.now() + (startAt - ctx.currentTime) * 1000;
+    },
+
+    noteTranscript: (text) => {
+      if (!turn || turnEnded) {
+        turn = newTurn();
+        turnEnded = false;
+      }
+      turn.chars += text.length;
+      turn.marks.push([turn.receivedSeconds, turn.chars]);
+    },
+
+    noteUserInput: (at = performance.now()) => {
+      lastUserInputAt = at;
+    },
+
+    endTurn: () => {
+      turnEnded = true;
+    },
+
+    interrupt: () => {
+      clearIdleTimer();
+      setSpeaking(false);
+      const interrupted = turn;
+      turn = null;
+      turnEnded = false;
+      if (!interrupted || interrupted.chunks.length === 0) {
+        nextStartAt = 0;
+        return null;
+      }
+
+      const now = ctx.currentTime;
+      const heard = heardSeconds(interrupted, now);
+      const fadeEnd = now + FADE_OUT_SECONDS;
+      gain.gain.setValueAtTime(gain.gain.value, now);
+      gain.gain.linearRampToValueAtTime(0, fadeEnd);
+      interrupted.chunks.forEach(c => {
+        try { c.source.stop(Math.max(fadeEnd, c.startAt)); } catch (e) {}
+      });
+      // The faded node finishes on its own; the next turn gets a fresh one at full volume.
+      const faded = gain;
+      setTimeout(() => faded.disconnect(), FADE_OUT_SECONDS * 1000 + 50);
+      gain = ctx.createGain();
+      gain.connect(destination);
+      nextStartAt = 0;
+
+      return {
+        heardSeconds: heard,
+        receivedSeconds: interrupted.receivedSeconds,
+        heardChars: charsAt(interrupted, heard)
+      };
+    },
+
+    metrics: () => ({
+      lastLatencyMs,
+      averageLatencyMs: latencyCount ? latencyTotal / latencyCount : null,
+      jitterMs: jitter,
+      underruns,
+      bufferedMs: Math.max(0, nextStartAt - ctx.currentTime) * 1000,
+      chunksPlayed
+    }),
+
+    close: () => {
+      clearIdleTimer();
+      turn?.chunks.forEach(c => { try { c.source.stop(); } catch (e) {} });
+      turn = null;
+      gain.disconnect();
+      setSpeaking(false);
+    }
+  };
+}
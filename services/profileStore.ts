@@ -0,0 +1,23 @@
+
+import { EMPTY_PROFILE } from '../constants';
+import { UserProfile } from '../types';
+
+const PROFILE_KEY = 'lumina.profile';
+
+export function loadProfile(): UserProfile {
+  try {
+    const raw = localStorage.getItem(PROFILE_KEY);
+    return raw ? { ...EMPTY_PROFILE, ...JSON.parse(raw) } : EMPTY_PROFILE;
+  } catch (e) {
+    console.warn('Ignoring unreadable profile', e);
+    return EMPTY_PROFILE;
+  }
+}
+
+export function saveProfile(profile: UserProfile): void {
+  try {
+    localStorage.setItem(PROFILE_KEY, JSON.stringify(profile));
+  } catch (e) {
+    console.warn('Failed to save profile', e);
+  }
+}
@@ -0,0 +1,49 @@
+
+import { GoogleGenAI, Type } from '@google/genai';
+import { PROFILE_FIELDS, TEXT_MODEL } from '../constants';
+import { ProfileSuggestion, TranscriptionItem, UserProfile } from '../types';
+
+const PROFILE_KEYS = PROFILE_FIELDS.map(f => f.key);
+
+/**
+ * Asks a text model what the finished conversation revealed about the user that
+ * the profile does not already say. Suggestions are only ever applied after the
+ * user approves them.
+ */
+export async function suggestProfileUpdates(
+  ai: GoogleGenAI,
+  profile: UserProfile,
+  transcript: TranscriptionItem[],
+): Promise<ProfileSuggestion[]> {
+  const conversation = transcript
+    .filter(t => t.role !== 'tool')
+    .map(t => `${t.role === 'user' ? 'User' : 'Lumina'}: ${t.text}`)
+    .join('\n');
+  if (!conversation.trim()) return [];
+
+  const response = await ai.models.generateContent({
+    model: TEXT_MODEL,
+    contents: `Current profile (JSON):\n${JSON.stringify(profile)}\n\nConversation:\n${conversation}`,
+    config: {
+      systemInstruction: `You maintain a short personal profile for a voice assistant's user. From the conversation, propose updates only for facts the USER stated about themselves that are new or contradict the profile. Never infer sensitive health details. Each value replaces the whole field, so merge with the existing value where appropriate. Return an empty list when nothing should change. Allowed fields: ${PROFILE_KEYS.join(', ')}.`,
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            field: { type: Type.STRING, enum: PROFILE_KEYS },
+            value: { type: Type.STRING },
+            reason: { type: Type.STRING, description: 'Short quote or paraphrase of what the user said.' }
+          },
+          required: ['field', 'value', 'reason']
+        }
+      }
+    }
+  });
+
+  const parsed: ProfileSuggestion[] = JSON.parse(response.text || '[]');
+  return parsed.filter(s =>
+    PROFILE_KEYS.includes(s.field) && s.value.trim() && s.value.trim() !== profile[s.field].trim()
+  );
+}
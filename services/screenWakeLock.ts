@@ -0,0 +1,51 @@
+
+export interface ScreenWakeLock {
+  acquire: () => void;
+  release: () => void;
+}
+
+/**
+ * Keeps the screen on during a call where the Screen Wake Lock API exists. The
+ * browser drops the lock whenever the page is hidden, so it is taken again each
+ * time the page becomes visible until released.
+ */
+export function createScreenWakeLock(): ScreenWakeLock {
+  let sentinel: WakeLockSentinel | null = null;
+  let wanted = false;
+
+  const request = async () => {
+    if (!wanted || sentinel || !('wakeLock' in navigator) || document.visibilityState !== 'visible') return;
+    try {
+      const lock = await navigator.wakeLock.request('screen');
+      if (!wanted) {
+        lock.release().catch(() => {});
+        return;
+      }
+      sentinel = lock;
+      lock.addEventListener('release', () => {
+        if (sentinel === lock) sentinel = null;
+      });
+    } catch (e) {
+      console.warn('Screen wake lock unavailable', e);
+    }
+  };
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'visible') request();
+  };
+
+  return {
+    acquire: () => {
+      if (wanted) return;
+      wanted = true;
+      document.addEventListener('visibilitychange', onVisibilityChange);
+      request();
+    },
+    release: () => {
+      wanted = false;
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      sentinel?.release().catch(() => {});
+      sentinel = null;
+    }
+  };
+}
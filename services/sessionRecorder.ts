@@ -0,0 +1,82 @@
+
+import { CAPTURE_SAMPLE_RATE } from './audioCapture';
+import { encodeWAV } from './audioUtils';
+
+/** Model audio arrives at 24 kHz, so the mix runs at that rate. */
+export const RECORDING_SAMPLE_RATE = 24000;
+
+interface Segment {
+  /** Offset from the start of the recording, in output samples. */
+  offset: number;
+  samples: Int16Array;
+}
+
+export interface SessionRecorder {
+  /** Appends 16 kHz mic PCM. The mic stream is continuous, so chunks are laid end to end. */
+  addUserAudio: (pcm: Int16Array) => void;
+  /** Places 24 kHz model PCM at the wall-clock time it is scheduled to play. */
+  addModelAudio: (pcm: Int16Array, playAt: number) => void;
+  /** Drops model audio that was scheduled after `at` but never played because of a barge-in. */
+  cutModelAudio: (at: number) => void;
+  /** Mixes both sides onto one timeline and encodes a mono WAV. */
+  finish: () => Blob | null;
+}
+
+export function createSessionRecorder(startedAt: number = Date.now()): SessionRecorder {
+  const toOffset = (time: number) => Math.max(0, Math.round(((time - startedAt) / 1000) * RECORDING_SAMPLE_RATE));
+
+  const userChunks: Int16Array[] = [];
+  let userStart: number | null = null;
+  let modelSegments: Segment[] = [];
+
+  return {
+    addUserAudio: (pcm) => {
+      if (userStart === null) {
+        // Back-date the first chunk by its own length: it was spoken before it arrived.
+        userStart = toOffset(Date.now() - (pcm.length / CAPTURE_SAMPLE_RATE) * 1000);
+      }
+      userChunks.push(pcm.slice());
+    },
+    addModelAudio: (pcm, playAt) => {
+      modelSegments.push({ offset: toOffset(playAt), samples: pcm.slice() });
+    },
+    cutModelAudio: (at) => {
+      const cut = toOffset(at);
+      modelSegments = modelSegments
+        .filter(s => s.offset < cut)
+        .map(s => (s.offset + s.samples.length > cut ? { ...s, samples: s.samples.subarray(0, cut - s.offset) } : s));
+    },
+    finish: () => {
+      const userLength = userChunks.reduce((n, c) => n + c.length, 0);
+      if (userLength === 0 && modelSegments.length === 0) return null;
+
+      // Upsample the mic track to the mix rate with linear interpolation.
+      const ratio = RECORDING_SAMPLE_RATE / CAPTURE_SAMPLE_RATE;
+      const user = new Int16Array(userLength);
+      let written = 0;
+      userChunks.forEach(c => { user.set(c, written); written += c.length; });
+      const userUpsampledLength = Math.floor(userLength * ratio);
+
+      const userOffset = userStart ?? 0;
+      const modelEnd = modelSegments.reduce((n, s) => Math.max(n, s.offset + s.samples.length), 0);
+      const mix = new Float32Array(Math.max(userOffset + userUpsampledLength, modelEnd));
+
+      for (let i = 0; i < userUpsampledLength; i++) {
+        const pos = i / ratio;
+        const base = Math.floor(pos);
+        const next = Math.min(base + 1, userLength - 1);
+        const frac = pos - base;
+        mix[userOffset + i] += user[base] * (1 - frac) + user[next] * frac;
+      }
+      modelSegments.forEach(s => {
+        for (let i = 0; i < s.samples.length; i++) mix[s.offset + i] += s.samples[i];
+      });
+
+      const pcm = new Int16Array(mix.length);
+      for (let i = 0; i < mix.length; i++) {
+        pcm[i] = Math.max(-32768, Math.min(32767, mix[i]));
+      }
+      return encodeWAV(pcm, RECORDING_SAMPLE_RATE);
+    }
+  };
+}
@@ -0,0 +1,66 @@
+
+import { SessionRecord } from '../types';
+
+const DB_NAME = 'lumina';
+const DB_VERSION = 1;
+const SESSIONS_STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(SESSIONS_STORE, mode);
+  return promisify(run(tx.objectStore(SESSIONS_STORE)));
+}
+
+export function createSessionId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export async function saveSession(record: SessionRecord): Promise<void> {
+  await withStore('readwrite', store => store.put(record));
+}
+
+export async function getSession(id: string): Promise<SessionRecord | undefined> {
+  return withStore('readonly', store => store.get(id));
+}
+
+/** Returns every stored session, newest first. */
+export async function listSessions(): Promise<SessionRecord[]> {
+  const records = await withStore<SessionRecord[]>('readonly', store => store.index('startedAt').getAll());
+  return records.reverse();
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
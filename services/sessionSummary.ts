@@ -0,0 +1,46 @@
+
+import { GoogleGenAI, Type } from '@google/genai';
+import { TEXT_MODEL, getModeConfig } from '../constants';
+import { SessionRecord, SessionSummary } from '../types';
+
+interface SummaryResponse {
+  keyPoints: string[];
+  actionItems: string[];
+  followUpQuestions: string[];
+  discussesHealth: boolean;
+}
+
+/** Turns a finished session's transcript into structured takeaways. */
+export async function summarizeSession(ai: GoogleGenAI, record: SessionRecord): Promise<SessionSummary> {
+  const conversation = record.transcriptions
+    .map(t => `${t.role === 'user' ? 'User' : t.role === 'tool' ? 'Lumina (tool)' : 'Lumina'}: ${t.text}`)
+    .join('\n');
+
+  const response = await ai.models.generateContent({
+    model: TEXT_MODEL,
+    contents: `Session mode: ${getModeConfig(record.mode).title}${record.lesson ? `\nLesson: ${record.lesson.title}` : ''}\n\nTranscript:\n${conversation}`,
+    config: {
+      systemInstruction: 'You summarize voice conversations between a user and Lumina, an AI mentor. Write for the user, in the language they spoke, in short plain sentences. Key points are the main advice or answers given. Action items are concrete things the user could do next. Follow-up questions are useful things the user could ask in a later session. Use empty lists rather than inventing content.',
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          keyPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
+          actionItems: { type: Type.ARRAY, items: { type: Type.STRING } },
+          followUpQuestions: { type: Type.ARRAY, items: { type: Type.STRING } },
+          discussesHealth: { type: Type.BOOLEAN, description: 'True if symptoms, medication, diet for a condition or other health matters came up.' }
+        },
+        required: ['keyPoints', 'actionItems', 'followUpQuestions', 'discussesHealth']
+      }
+    }
+  });
+
+  const parsed: SummaryResponse = JSON.parse(response.text || '{}');
+  return {
+    keyPoints: parsed.keyPoints || [],
+    actionItems: parsed.actionItems || [],
+    followUpQuestions: parsed.followUpQuestions || [],
+    healthDisclaimer: record.mode === 'health' || !!parsed.discussesHealth,
+    generatedAt: Date.now()
+  };
+}
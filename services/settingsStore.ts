@@ -0,0 +1,29 @@
+
+import { DEFAULT_SETTINGS, LIVE_MODELS } from '../constants';
+import { Settings } from '../types';
+
+const SETTINGS_KEY = 'lumina.settings';
+
+export function loadSettings(): Settings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_SETTINGS;
+    // Merge over the defaults so settings added later get sensible values.
+    const settings: Settings = { ...DEFAULT_SETTINGS, ...JSON.parse(raw) };
+    // The token server only issues tokens for LIVE_MODELS, so a model saved by an
+    // older version would fail every call.
+    if (!LIVE_MODELS.includes(settings.model)) settings.model = DEFAULT_SETTINGS.model;
+    return settings;
+  } catch (e) {
+    console.warn('Ignoring unreadable settings', e);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function saveSettings(settings: Settings): void {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn('Failed to save settings', e);
+  }
+}
@@ -0,0 +1,36 @@
+
+import { LessonProgress, StudyLevel } from '../types';
+
+const PROGRESS_KEY = 'lumina.studyProgress';
+
+export function loadStudyProgress(): LessonProgress[] {
+  try {
+    const raw = localStorage.getItem(PROGRESS_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.warn('Ignoring unreadable study progress', e);
+    return [];
+  }
+}
+
+export function findLessonProgress(all: LessonProgress[], topicId: string, level: StudyLevel): LessonProgress | undefined {
+  return all.find(p => p.topicId === topicId && p.level === level);
+}
+
+/** Applies `update` to the stored progress for one topic and level, creating it on first use. */
+export function updateLessonProgress(
+  topicId: string,
+  level: StudyLevel,
+  update: (progress: LessonProgress) => LessonProgress
+): LessonProgress {
+  const all = loadStudyProgress();
+  const current = findLessonProgress(all, topicId, level)
+    || { topicId, level, completedSteps: [], answers: {}, attempts: 0, correct: 0, lastStudiedAt: 0 };
+  const next = { ...update(current), lastStudiedAt: Date.now() };
+  try {
+    localStorage.setItem(PROGRESS_KEY, JSON.stringify([...all.filter(p => p !== current), next]));
+  } catch (e) {
+    console.warn('Failed to save study progress', e);
+  }
+  return next;
+}
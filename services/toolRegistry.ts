@@ -0,0 +1,59 @@
+
+import { FunctionCall, FunctionDeclaration, FunctionResponse, Tool } from '@google/genai';
+
+export type ToolResult = Record<string, unknown>;
+
+export interface LocalTool {
+  declaration: FunctionDeclaration & { name: string };
+  run: (args: Record<string, any>) => ToolResult | Promise<ToolResult>;
+  /** One-line, user-facing account of what the call did, shown in the transcript. */
+  describe: (args: Record<string, any>, result: ToolResult) => string;
+}
+
+export interface ToolInvocation {
+  name: string;
+  summary: string;
+  response: FunctionResponse;
+}
+
+export interface ToolRegistry {
+  /** Pass as `config.tools` when connecting. */
+  tools: Tool[];
+  /** Runs every call in a `toolCall` message. Failures are reported back to the model, never thrown. */
+  run: (calls: FunctionCall[]) => Promise<ToolInvocation[]>;
+}
+
+export function createToolRegistry(localTools: LocalTool[]): ToolRegistry {
+  const byName = new Map(localTools.map(t => [t.declaration.name, t]));
+
+  const runOne = async (call: FunctionCall): Promise<ToolInvocation> => {
+    const name = call.name || 'unknown';
+    const args = call.args || {};
+    const tool = byName.get(name);
+
+    if (!tool) {
+      return {
+        name,
+        summary: `Tried an unknown tool "${name}"`,
+        response: { id: call.id, name, response: { error: `Unknown tool: ${name}` } }
+      };
+    }
+
+    try {
+      const result = await tool.run(args);
+      return { name, summary: tool.describe(args, result), response: { id: call.id, name, response: result } };
+    } catch (e: any) {
+      const message = e?.message || String(e);
+      return {
+        name,
+        summary: `${tool.declaration.name} failed: ${message}`,
+        response: { id: call.id, name, response: { error: message } }
+      };
+    }
+  };
+
+  return {
+    tools: localTools.length ? [{ functionDeclarations: localTools.map(t => t.declaration) }] : [],
+    run: (calls) => Promise.all(calls.map(runOne))
+  };
+}
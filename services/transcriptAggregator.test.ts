@@ -0,0 +1,96 @@
+
+import { LiveServerMessage } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import {
+  appendToolEvent,
+  appendTypedText,
+  applyServerMessage,
+  createTranscriptState,
+  sealTurns,
+  TranscriptState,
+  truncateModelTurn
+} from './transcriptAggregator';
+
+const input = (text: string) => ({ serverContent: { inputTranscription: { text } } }) as LiveServerMessage;
+const output = (text: string) => ({ serverContent: { outputTranscription: { text } } }) as LiveServerMessage;
+const audio = { serverContent: { modelTurn: { role: 'model', parts: [{ inlineData: { data: '' } }] } } } as LiveServerMessage;
+const interrupted = { serverContent: { interrupted: true } } as LiveServerMessage;
+const turnComplete = { serverContent: { turnComplete: true } } as LiveServerMessage;
+
+/** Replays messages one per millisecond, starting at t=1. */
+const replay = (messages: LiveServerMessage[], state: TranscriptState = createTranscriptState()) =>
+  messages.reduce((s, message, i) => applyServerMessage(s, message, i + 1), state);
+
+describe('transcriptAggregator', () => {
+  it('joins fragments into one turn per speaker', () => {
+    const state = replay([input(' How do'), input(' I plant'), input(' maize?'), output('Wait for '), audio, output('the rains.'), turnComplete]);
+
+    expect(state.items).toEqual([
+      { role: 'user', text: 'How do I plant maize?', startedAt: 1, endedAt: 4 },
+      { role: 'model', text: 'Wait for the rains.', startedAt: 4, endedAt: 7 }
+    ]);
+    expect(state.openUser).toBeNull();
+    expect(state.openModel).toBeNull();
+  });
+
+  it('closes the user turn when model audio arrives before any output transcription', () => {
+    const state = replay([input('Hello'), audio]);
+
+    expect(state.items[0]).toMatchObject({ role: 'user', text: 'Hello', endedAt: 2 });
+    expect(state.openModel).toBeNull();
+  });
+
+  it('returns the same state for messages without transcript content', () => {
+    const state = replay([output('Hi')]);
+
+    expect(applyServerMessage(state, { setupComplete: {} } as LiveServerMessage, 5)).toBe(state);
+    expect(applyServerMessage(state, audio, 5)).toBe(state);
+  });
+
+  it('marks the model turn interrupted when the server reports a barge-in', () => {
+    const state = replay([output('Let me walk you '), output('through this.'), interrupted, input('Stop')]);
+
+    expect(state.items).toEqual([
+      { role: 'model', text: 'Let me walk you through this.', startedAt: 1, endedAt: 3, interrupted: true },
+      { role: 'user', text: 'Stop', startedAt: 4 }
+    ]);
+  });
+
+  it('truncates an interrupted model turn to the last whole word heard', () => {
+    const streaming = replay([output('First, we look '), output('at the soil.')]);
+
+    expect(truncateModelTurn(streaming, 16, 10).items[0]).toMatchObject({ text: 'First, we look', endedAt: 10, interrupted: true });
+    expect(truncateModelTurn(streaming, 17, 10).items[0].text).toBe('First, we look at');
+    expect(truncateModelTurn(streaming, 100, 10).items[0].text).toBe('First, we look at the soil.');
+    expect(truncateModelTurn(createTranscriptState(), 5, 10).items).toEqual([]);
+  });
+
+  it('closes streaming turns before a typed turn', () => {
+    const state = appendTypedText(replay([output('Partly said')]), 'Tell me about beans', 5);
+
+    expect(state.items).toEqual([
+      { role: 'model', text: 'Partly said', startedAt: 1, endedAt: 5 },
+      { role: 'user', text: 'Tell me about beans', startedAt: 5, endedAt: 5, typed: true }
+    ]);
+    expect(state.openModel).toBeNull();
+  });
+
+  it('keeps the model turn streaming around a tool event', () => {
+    const withTool = appendToolEvent(replay([input('Convert two acres'), output('Two acres ')]), 'convert', '2 acre = 0.81 ha', 3);
+    const state = replay([output('is about 0.81 hectares.'), turnComplete], withTool);
+
+    expect(state.items.map(t => [t.role, t.text])).toEqual([
+      ['user', 'Convert two acres'],
+      ['model', 'Two acres is about 0.81 hectares.'],
+      ['tool', '2 acre = 0.81 ha']
+    ]);
+  });
+
+  it('seals turns left open when the call ends', () => {
+    const { items } = replay([input('Are you '), output('Yes ')]);
+    const sealed = sealTurns(items, 9);
+
+    expect(sealed.map(t => [t.text, t.endedAt])).toEqual([['Are you', 2], ['Yes', 9]]);
+    expect(sealTurns(sealed, 10)).toBe(sealed);
+  });
+});
@@ -0,0 +1,127 @@
+
+import { LiveServerMessage } from '@google/genai';
+import { TranscriptionItem } from '../types';
+
+/**
+ * Builds whole user/model turns out of the word-level transcription fragments
+ * the Live API streams. Pure and immutable so it can drive React state updates
+ * and be replayed against recorded message sequences.
+ */
+type TurnRole = 'user' | 'model';
+
+export interface TranscriptState {
+  items: TranscriptionItem[];
+  /** Index into `items` of the user turn still receiving fragments. */
+  openUser: number | null;
+  /** Index into `items` of the model turn still receiving fragments. */
+  openModel: number | null;
+}
+
+export function createTranscriptState(items: TranscriptionItem[] = []): TranscriptState {
+  return { items, openUser: null, openModel: null };
+}
+
+export function sealTurns(items: TranscriptionItem[], now: number): TranscriptionItem[] {
+  return items.some(t => t.endedAt === undefined)
+    ? items.map(t => (t.endedAt === undefined ? { ...t, text: t.text.trim(), endedAt: now } : t))
+    : items;
+}
+
+function closeTurn(state: TranscriptState, role: TurnRole, now: number, interrupted = false): TranscriptState {
+  const index = role === 'user' ? state.openUser : state.openModel;
+  if (index === null) return state;
+
+  const items = state.items.slice();
+  const turn = items[index];
+  items[index] = { ...turn, text: turn.text.trim(), endedAt: now, ...(interrupted ? { interrupted: true } : {}) };
+  return role === 'user'
+    ? { ...state, items, openUser: null }
+    : { ...state, items, openModel: null };
+}
+
+function appendFragment(state: TranscriptState, role: TurnRole, text: string, now: number): TranscriptState {
+  const index = role === 'user' ? state.openUser : state.openModel;
+  const items = state.items.slice();
+
+  if (index === null) {
+    items.push({ role, text: text.trimStart(), startedAt: now });
+    const opened = items.length - 1;
+    return role === 'user'
+      ? { ...state, items, openUser: opened }
+      : { ...state, items, openModel: opened };
+  }
+
+  items[index] = { ...items[index], text: items[index].text + text };
+  return { ...state, items };
+}
+
+/** Adds a complete, typed user turn, closing any turn still streaming before it. */
+export function appendTypedText(state: TranscriptState, text: string, now: number): TranscriptState {
+  const closed = closeOpenTurns(state, now);
+  return { ...closed, items: [...closed.items, { role: 'user', text, startedAt: now, endedAt: now, typed: true }] };
+}
+
+/** Records a tool call as its own item. The model turn around it keeps streaming. */
+export function appendToolEvent(state: TranscriptState, toolName: string, text: string, now: number): TranscriptState {
+  const closed = closeTurn(state, 'user', now);
+  return { ...closed, items: [...closed.items, { role: 'tool', toolName, text, startedAt: now, endedAt: now }] };
+}
+
+/**
+ * Closes the streaming model turn as interrupted, keeping only the first
+ * `heardChars` characters (backed off to a word boundary), so the transcript
+ * reflects what was actually played rather than everything the model generated.
+ */
+export function truncateModelTurn(state: TranscriptState, heardChars: number, now: number): TranscriptState {
+  if (state.openModel === null) return state;
+  const turn = state.items[state.openModel];
+  let text = turn.text;
+  if (heardChars < text.length) {
+    text = text.slice(0, Math.max(0, heardChars));
+    if (!/\s/.test(turn.text[text.length] ?? ' ')) {
+      text = text.slice(0, text.search(/\S*$/));
+    }
+  }
+  const items = state.items.slice();
+  items[state.openModel] = { ...turn, text };
+  return closeTurn({ ...state, items }, 'model', now, true);
+}
+
+export function closeOpenTurns(state: TranscriptState, now: number): TranscriptState {
+  return closeTurn(closeTurn(state, 'user', now), 'model', now);
+}
+
+/**
+ * Folds one server message into the transcript. Returns the same state object
+ * when the message carries nothing transcript-related (e.g. pure audio chunks
+ * after the user turn is already closed), so callers can bail out of renders.
+ */
+export function applyServerMessage(state: TranscriptState, message: LiveServerMessage, now: number): TranscriptState {
+  const content = message.serverContent;
+  if (!content) return state;
+
+  let next = state;
+
+  const inputText = content.inputTranscription?.text;
+  if (inputText) {
+    next = appendFragment(next, 'user', inputText, now);
+  }
+
+  // Once the model starts answering, the user's turn is over.
+  const outputText = content.outputTranscription?.text;
+  if (outputText || content.modelTurn) {
+    next = closeTurn(next, 'user', now);
+  }
+  if (outputText) {
+    next = appendFragment(next, 'model', outputText, now);
+  }
+
+  if (content.interrupted) {
+    next = closeTurn(next, 'model', now, true);
+  }
+  if (content.turnComplete) {
+    next = closeOpenTurns(next, now);
+  }
+
+  return next;
+}
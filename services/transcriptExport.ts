@@ -0,0 +1,101 @@
+
+import { getModeConfig } from '../constants';
+import { SessionRecord, TranscriptionItem } from '../types';
+import { LESSON_STEP_TOOL } from './lessonTools';
+
+export type ExportFormat = 'markdown' | 'text' | 'json' | 'srt';
+
+export const EXPORT_FORMATS: { id: ExportFormat; label: string; extension: string; mimeType: string }[] = [
+  { id: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'text', label: 'Text', extension: 'txt', mimeType: 'text/plain' },
+  { id: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { id: 'srt', label: 'SRT', extension: 'srt', mimeType: 'application/x-subrip' }
+];
+
+/** Shortest cue we emit, so zero-length typed turns still show on screen. */
+const MIN_CUE_MS = 1000;
+
+const speaker = (t: TranscriptionItem) => (t.role === 'user' ? 'You' : t.role === 'tool' ? 'Lumina (tool)' : 'Lumina');
+
+const title = (record: SessionRecord) =>
+  `Lumina · ${record.lesson ? `${record.lesson.title} lesson` : getModeConfig(record.mode).title} · ${new Date(record.startedAt).toLocaleString()}`;
+
+export function toMarkdown(record: SessionRecord): string {
+  const lines = [`# ${title(record)}`, ''];
+  record.transcriptions.forEach(t => {
+    // Lesson steps become section headings so a study transcript reads as notes.
+    if (t.toolName === LESSON_STEP_TOOL) {
+      lines.push(`## ${t.text}`, '');
+      return;
+    }
+    const notes = [t.typed && 'typed', t.interrupted && 'interrupted'].filter(Boolean);
+    lines.push(`**${speaker(t)}:** ${t.text}${notes.length ? ` _(${notes.join(', ')})_` : ''}`, '');
+  });
+  return lines.join('\n');
+}
+
+export function toPlainText(record: SessionRecord): string {
+  return [title(record), '', ...record.transcriptions.map(t => `${speaker(t)}: ${t.text}`)].join('\n');
+}
+
+export function toJSON(record: SessionRecord): string {
+  return JSON.stringify({
+    id: record.id,
+    mode: record.mode,
+    voice: record.voice,
+    ...(record.lesson ? { lesson: record.lesson } : {}),
+    startedAt: new Date(record.startedAt).toISOString(),
+    endedAt: record.endedAt ? new Date(record.endedAt).toISOString() : null,
+    turns: record.transcriptions.map(t => ({
+      role: t.role,
+      text: t.text,
+      startedAt: new Date(t.startedAt).toISOString(),
+      endedAt: t.endedAt ? new Date(t.endedAt).toISOString() : null,
+      interrupted: !!t.interrupted,
+      typed: !!t.typed,
+      ...(t.toolName ? { toolName: t.toolName } : {})
+    }))
+  }, null, 2);
+}
+
+const srtTime = (ms: number) => {
+  const total = Math.max(0, Math.round(ms));
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(total / 3600000))}:${pad(Math.floor(total / 60000) % 60)}:${pad(Math.floor(total / 1000) % 60)},${pad(total % 1000, 3)}`;
+};
+
+export function toSRT(record: SessionRecord): string {
+  return record.transcriptions.map((t, i) => {
+    const start = t.startedAt - record.startedAt;
+    const next = record.transcriptions[i + 1];
+    const end = Math.max(start + MIN_CUE_MS, (t.endedAt ?? next?.startedAt ?? t.startedAt) - record.startedAt);
+    return `${i + 1}\n${srtTime(start)} --> ${srtTime(end)}\n${speaker(t)}: ${t.text}\n`;
+  }).join('\n');
+}
+
+export function exportTranscript(record: SessionRecord, format: ExportFormat): string {
+  switch (format) {
+    case 'markdown': return toMarkdown(record);
+    case 'text': return toPlainText(record);
+    case 'json': return toJSON(record);
+    case 'srt': return toSRT(record);
+  }
+}
+
+export const exportFileName = (record: SessionRecord, extension: string) =>
+  `lumina-${record.mode}-${new Date(record.startedAt).toISOString().slice(0, 16).replace(/[:T]/g, '-')}.${extension}`;
+
+export function downloadTranscript(record: SessionRecord, format: ExportFormat): void {
+  const { extension, mimeType } = EXPORT_FORMATS.find(f => f.id === format)!;
+  const blob = new Blob([exportTranscript(record, format)], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = exportFileName(record, extension);
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function copyTranscript(record: SessionRecord, format: ExportFormat): Promise<void> {
+  return navigator.clipboard.writeText(exportTranscript(record, format));
+}
@@ -0,0 +1,75 @@
+
+export type VideoSource = 'camera' | 'screen';
+
+/** One frame per second keeps bandwidth low while still letting Lumina see what is shown. */
+export const VIDEO_FRAME_INTERVAL_MS = 1000;
+const MAX_FRAME_DIMENSION = 768;
+const JPEG_QUALITY = 0.7;
+
+export interface VideoCapture {
+  source: VideoSource;
+  stream: MediaStream;
+  stop: () => void;
+}
+
+function openVideoStream(source: VideoSource): Promise<MediaStream> {
+  return source === 'screen'
+    ? navigator.mediaDevices.getDisplayMedia({ video: { frameRate: 5 }, audio: false })
+    : navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment', width: { ideal: 1280 } }, audio: false });
+}
+
+/**
+ * Samples JPEG frames from the camera or a shared screen and hands them over as
+ * base64. `onEnded` fires when the browser stops the stream itself, e.g. from
+ * its own "Stop sharing" bar.
+ */
+export async function startVideoCapture(
+  source: VideoSource,
+  onFrame: (jpegBase64: string) => void,
+  onEnded: () => void,
+): Promise<VideoCapture> {
+  const stream = await openVideoStream(source);
+
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  video.srcObject = stream;
+  try {
+    await video.play();
+  } catch (e) {
+    // Otherwise the camera light stays on with nothing reading the stream.
+    stream.getTracks().forEach(track => track.stop());
+    video.srcObject = null;
+    throw e;
+  }
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+
+  const sample = () => {
+    if (!ctx || video.videoWidth === 0) return;
+    const scale = Math.min(1, MAX_FRAME_DIMENSION / Math.max(video.videoWidth, video.videoHeight));
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    onFrame(canvas.toDataURL('image/jpeg', JPEG_QUALITY).split(',')[1]);
+  };
+
+  const timer = setInterval(sample, VIDEO_FRAME_INTERVAL_MS);
+  let stopped = false;
+
+  const stop = () => {
+    if (stopped) return;
+    stopped = true;
+    clearInterval(timer);
+    stream.getTracks().forEach(track => track.stop());
+    video.srcObject = null;
+  };
+
+  stream.getVideoTracks()[0]?.addEventListener('ended', () => {
+    stop();
+    onEnded();
+  });
+
+  return { source, stream, stop };
+}
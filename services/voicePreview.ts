@@ -0,0 +1,40 @@
+
+import { GoogleGenAI, Modality } from '@google/genai';
+import { LANGUAGES, PREVIEW_TTS_MODEL } from '../constants';
+import { decode, decodeAudioData } from './audioUtils';
+
+const PREVIEW_SAMPLE_RATE = 24000;
+
+/** Speaks a short greeting in the given voice. Resolves once playback ends. */
+export async function playVoicePreview(ai: GoogleGenAI, voiceName: string, language: string): Promise<void> {
+  const languageLabel = language === 'auto' ? null : LANGUAGES.find(l => l.code === language)?.label;
+  const prompt = languageLabel
+    ? `Say warmly, in ${languageLabel}: Hi, I'm Lumina. This is how I will sound when we talk.`
+    : `Say warmly: Hi, I'm Lumina. This is how I will sound when we talk.`;
+
+  const response = await ai.models.generateContent({
+    model: PREVIEW_TTS_MODEL,
+    contents: [{ parts: [{ text: prompt }] }],
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName } } }
+    }
+  });
+
+  const data = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+  if (!data) throw new Error('No preview audio was returned.');
+
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: PREVIEW_SAMPLE_RATE });
+  try {
+    const buffer = await decodeAudioData(decode(data), ctx, PREVIEW_SAMPLE_RATE, 1);
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(ctx.destination);
+    await new Promise<void>(resolve => {
+      source.onended = () => resolve();
+      source.start();
+    });
+  } finally {
+    ctx.close().catch(() => {});
+  }
+}
@@ -2,8 +2,19 @@
 export type AIMode = 'general' | 'business' | 'academic' | 'health' | 'agriculture' | 'creative';
 
 export interface TranscriptionItem {
-  role: 'user' | 'model';
+  /** 'tool' items record a function call Lumina made during the turn. */
+  role: 'user' | 'model' | 'tool';
   text: string;
+  /** Epoch ms of the first fragment in this turn. */
+  startedAt: number;
+  /** Epoch ms when the turn was closed; undefined while it is still streaming. */
+  endedAt?: number;
+  /** Set on model turns that the user barged in on before they finished. */
+  interrupted?: boolean;
+  /** Set on user turns that were typed into the composer rather than spoken. */
+  typed?: boolean;
+  /** Function name, on 'tool' items. */
+  toolName?: string;
 }
 
 export interface ModeConfig {
@@ -14,3 +25,131 @@ export interface ModeConfig {
   instruction: string;
   color: string;
 }
+
+export interface SessionRecord {
+  id: string;
+  startedAt: number;
+  endedAt?: number;
+  mode: AIMode;
+  voice: string;
+  transcriptions: TranscriptionItem[];
+  /** Mixed WAV of both sides of the call, present when the user chose to record it. */
+  recording?: Blob;
+  summary?: SessionSummary;
+  /** Set on guided study sessions. */
+  lesson?: LessonSelection & { title: string };
+}
+
+export interface SessionSummary {
+  keyPoints: string[];
+  actionItems: string[];
+  followUpQuestions: string[];
+  /** Shown with a "not medical advice" notice; always set for health-mode sessions. */
+  healthDisclaimer: boolean;
+  generatedAt: number;
+}
+
+export interface VoiceOption {
+  name: string;
+  description: string;
+}
+
+export interface LanguageOption {
+  /** BCP-47 code, or 'auto' to let Lumina follow the user's language. */
+  code: string;
+  label: string;
+}
+
+/** 'auto' relies on server voice activity detection; 'push' is hold-to-talk. */
+export type TalkMode = 'auto' | 'push';
+
+export interface Settings {
+  voiceName: string;
+  /** Empty string means the browser's default input. */
+  inputDeviceId: string;
+  language: string;
+  model: string;
+  talkMode: TalkMode;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  /** After each session, ask a text model to suggest profile updates from the transcript. */
+  learnFromSessions: boolean;
+  /** Show the live caption strip during calls. */
+  showCaptions: boolean;
+}
+
+export interface SavedNote {
+  id: string;
+  kind: 'note' | 'task';
+  text: string;
+  due?: string;
+  createdAt: number;
+}
+
+/** What Lumina remembers about the user between sessions. Every field is free text. */
+export interface UserProfile {
+  name: string;
+  businessType: string;
+  region: string;
+  crops: string;
+  studyLevel: string;
+  preferences: string;
+}
+
+export interface ProfileSuggestion {
+  field: keyof UserProfile;
+  value: string;
+  reason: string;
+}
+
+export type StudyLevel = 'beginner' | 'intermediate';
+
+export interface QuizQuestion {
+  id: string;
+  prompt: string;
+  /** Accepted answers; a spoken answer is correct if the last answer it states is one of them. */
+  answers: string[];
+  explanation: string;
+}
+
+export interface LessonStep {
+  id: string;
+  title: string;
+  /** Key points Lumina should explain before quizzing. */
+  points: string[];
+  questions: QuizQuestion[];
+}
+
+export interface CurriculumTopic {
+  id: string;
+  subject: string;
+  title: string;
+  levels: Partial<Record<StudyLevel, LessonStep[]>>;
+}
+
+export interface LessonSelection {
+  topicId: string;
+  level: StudyLevel;
+}
+
+export interface LessonPlan {
+  topicId: string;
+  subject: string;
+  title: string;
+  level: StudyLevel;
+  steps: LessonStep[];
+}
+
+/** A student's standing on one topic at one level, kept between sessions. */
+export interface LessonProgress {
+  topicId: string;
+  level: StudyLevel;
+  completedSteps: string[];
+  /** Whether the latest attempt at each question was correct, by question id. */
+  answers: Record<string, boolean>;
+  /** Running totals across every attempt. */
+  attempts: number;
+  correct: number;
+  lastStudiedAt: number;
+}
@@ -1,18 +1,48 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { readFileSync } from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const PUBLIC_SHELL = ['/index.html', '/manifest.webmanifest', '/icons/icon-192.png', '/icons/icon-512.png', '/icons/apple-touch-icon.png'];
+
+/**
+ * Emits sw.js from serviceWorker.js with the build's file list baked in. Only
+ * latin woff2 fonts are precached; other subsets are cached at runtime if used.
+ */
+function serviceWorkerPlugin(): Plugin {
+  return {
+    name: 'lumina-service-worker',
+    apply: 'build',
+    generateBundle(_options, bundle) {
+      const assets = Object.keys(bundle)
+        .filter(file => !/\.woff2?$/.test(file) || (file.endsWith('.woff2') && /-latin-\d00-normal/.test(file)))
+        .map(file => `/${file}`);
+      const urls = [...PUBLIC_SHELL, ...assets];
+      const buildId = createHash('sha256').update(urls.join('\n')).digest('hex').slice(0, 12);
+      const source = readFileSync(path.resolve(__dirname, 'serviceWorker.js'), 'utf8')
+        .replace('__BUILD_ID__', buildId)
+        .replace('__PRECACHE_URLS__', JSON.stringify(urls, null, 2));
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    }
+  };
+}
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          '/api': `http://localhost:${env.TOKEN_SERVER_PORT || 8788}`
+        }
       },
-      plugins: [react()],
+      plugins: [react(), serviceWorkerPlugin()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.TOKEN_SERVER_URL': JSON.stringify(env.TOKEN_SERVER_URL),
+        'process.env.LUMINA_BACKEND': JSON.stringify(env.LUMINA_BACKEND),
+        'process.env.MOCK_SERVER_URL': JSON.stringify(env.MOCK_SERVER_URL)
       },
       resolve: {
         alias: {
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vitest/config';
+
+/**
+ * Kept apart from vite.config.ts, whose `define` would bake the env vars in
+ * as build-time constants; tests set MOCK_SERVER_URL at runtime instead.
+ */
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['services/**/*.test.ts']
+  }
+});